@@ -1,31 +1,58 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { UploadZone } from './components/UploadZone';
+import { UploadJobList } from './components/UploadJobList';
 import { DataTable } from './components/DataTable';
-import { parseCashbackScreenshot, parseUserContext, refineDataWithContext } from './services/geminiService';
-import { CashbackEntry, ProcessingStatus } from './types';
+import { SpendingProfileEditor } from './components/SpendingProfileEditor';
+import { StatementImport } from './components/StatementImport';
+import { CategoryMappingEditor } from './components/CategoryMappingEditor';
+import { CardLookup } from './components/CardLookup';
+import { PurchaseAdvisor } from './components/PurchaseAdvisor';
+import { ReconciliationPanel } from './components/ReconciliationPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { AiSettingsEditor } from './components/AiSettingsEditor';
+import { BankRegistryEditor } from './components/BankRegistryEditor';
+import { HouseholdEditor } from './components/HouseholdEditor';
+import { PatchReview } from './components/PatchReview';
+import { EditHistory } from './components/EditHistory';
+import { ReviewQueue } from './components/ReviewQueue';
+import { ExportPanel } from './components/ExportPanel';
+import { parseUserContext, refineDataWithContext } from './services/geminiService';
+import { applyPatch } from './services/patch';
+import { createHistory, currentData, pushHistory, jumpTo, redo, undo } from './services/dataHistory';
+import { pruneSources } from './services/sourceImages';
+import { triageEntries } from './services/entryValidation';
+import { BANK_REGISTRY, defaultBankConfigs, getBankRegistry, loadCustomBanks, saveCustomBanks, toBankConfig } from './services/bankRegistry';
+import { loadCustomMerchants, saveCustomMerchants } from './services/merchantCatalog';
+import { createUploadJob, isActiveJob, UPLOAD_CONCURRENCY } from './services/uploadQueue';
+import { KnownImage, processUpload } from './services/uploadPipeline';
+import { householdBanks, isCardRemoved, loadHouseholdMembers, removeBankCards, removeMemberCards, saveHouseholdMembers, toggleCard } from './services/household';
+import { ImportMode, ImportResult, mergeBankConfigs, mergeEntries } from './services/importService';
+import { loadSpendingProfile, saveSpendingProfile } from './services/spendingProfile';
+import { applyCanonicalCategory, getCategoryById, loadCategoryOverrides, normalizeCategoryLabel, saveCategoryOverrides, setCategoryOverride } from './services/categoryCatalog';
+import { isRewardCurrency, REWARD_CURRENCIES } from './services/rewards';
+import { AI_PROVIDERS, loadAiSettings, saveAiSettings } from './services/aiProvider';
+import { deleteMonth, formatMonthKey, getMonthKey, listMonths, loadMonth, saveMonth } from './services/historyStore';
+import { AiSettings, BankConfig, BankDefinition, CashbackEntry, CategoryOverrides, DataHistory, MonthSession, PatchOperation, MerchantDefinition, ReviewItem, RewardCurrency, SourceImage, SpendingProfile, UploadJob } from './types';
 import { Sparkles, Loader2, CreditCard, Settings2, MessageSquarePlus, Wand2 } from 'lucide-react';
 
-export interface BankConfig {
-  enabled: boolean;
-  limit: number;
-  color: string;
-}
-
-const DEFAULT_CONFIGS: Record<string, BankConfig> = {
-  'Sber': { enabled: true, limit: 5, color: 'text-green-400 border-green-500/30' },
-  'T-Bank': { enabled: true, limit: 4, color: 'text-yellow-400 border-yellow-500/30' },
-  'Alfa': { enabled: true, limit: 5, color: 'text-red-400 border-red-500/30' },
-  'VTB': { enabled: true, limit: 4, color: 'text-blue-400 border-blue-500/30' },
-  'Yandex': { enabled: true, limit: 5, color: 'text-amber-400 border-amber-500/30' },
-};
+const DEFAULT_CONFIGS: Record<string, BankConfig> = defaultBankConfigs(BANK_REGISTRY);
 
 const App: React.FC = () => {
-  const [data, setData] = useState<CashbackEntry[]>([]);
-  const [status, setStatus] = useState<ProcessingStatus>({
-    total: 0,
-    processed: 0,
-    isProcessing: false
-  });
+  const [history, setHistory] = useState<DataHistory>(createHistory);
+  const data = currentData(history);
+  const [sources, setSources] = useState<SourceImage[]>([]);
+  const [reviewQueue, setReviewQueue] = useState<ReviewItem[]>([]);
+  const [jobs, setJobs] = useState<UploadJob[]>([]);
+  const jobControllers = useRef(new Map<string, AbortController>());
+  // Screenshots of running jobs, so two copies in one batch are caught before either is saved
+  const jobImages = useRef(new Map<string, KnownImage[]>());
+  // Only screenshots behind current entries or the review queue count as uploaded; undo history doesn't
+  const liveSourcesRef = useRef<SourceImage[]>([]);
+  liveSourcesRef.current = useMemo(
+    () => pruneSources(sources, [data, reviewQueue.map(item => item.entry)]),
+    [sources, data, reviewQueue]
+  );
+  const isUploading = jobs.some(isActiveJob);
   
   // Settings State
   const [bankConfigs, setBankConfigs] = useState<Record<string, BankConfig>>(DEFAULT_CONFIGS);
@@ -33,6 +60,114 @@ const App: React.FC = () => {
   const [refinementComment, setRefinementComment] = useState<string>("");
   const [showSettings, setShowSettings] = useState(true);
   const [isRefining, setIsRefining] = useState(false);
+  const [pendingPatch, setPendingPatch] = useState<{ instruction: string; operations: PatchOperation[] } | null>(null);
+  const [spendingProfile, setSpendingProfile] = useState<SpendingProfile>(loadSpendingProfile);
+  const [categoryOverrides, setCategoryOverrides] = useState<CategoryOverrides>(loadCategoryOverrides);
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+  const [customBanks, setCustomBanks] = useState<BankDefinition[]>(loadCustomBanks);
+  // Shared by the card lookup and the statement import, which both add merchants
+  const [customMerchants, setCustomMerchants] = useState<MerchantDefinition[]>(loadCustomMerchants);
+  const [members, setMembers] = useState<string[]>(loadHouseholdMembers);
+  const [activeOwner, setActiveOwner] = useState<string>("");
+
+  // History State
+  const [currentMonth, setCurrentMonth] = useState<string>(getMonthKey);
+  const [months, setMonths] = useState<MonthSession[]>([]);
+  const [isHydrated, setIsHydrated] = useState(false);
+  // Month whose session the state currently holds; null while a month is loading
+  const hydratedMonth = useRef<string | null>(null);
+
+  const refreshMonths = () =>
+    listMonths()
+      .then(setMonths)
+      .catch(err => console.error("Failed to list months", err));
+
+  // Restore the viewed month from IndexedDB
+  useEffect(() => {
+    let cancelled = false;
+    hydratedMonth.current = null;
+    setIsHydrated(false);
+
+    (async () => {
+      try {
+        const [session, archive] = await Promise.all([loadMonth(currentMonth), listMonths()]);
+        if (cancelled) return;
+        // A fresh month inherits bank settings from the latest archived one
+        const fallbackConfigs = archive[0]?.bankConfigs ?? DEFAULT_CONFIGS;
+        setHistory(session?.history ?? createHistory(session?.entries ?? []));
+        setSources(session?.sources ?? []);
+        setReviewQueue(session?.reviewQueue ?? []);
+        setBankConfigs(session?.bankConfigs ?? fallbackConfigs);
+        setUserComment(session?.userComment ?? "");
+        setMonths(archive);
+      } catch (err) {
+        console.error("Failed to restore session", err);
+      } finally {
+        if (!cancelled) {
+          hydratedMonth.current = currentMonth;
+          setIsHydrated(true);
+        }
+      }
+    })();
+
+    return () => { cancelled = true; };
+  }, [currentMonth]);
+
+  // Autosave the viewed month. The ref, not isHydrated, is checked: on a month switch this runs in the same
+  // commit as the restore, while isHydrated is still true and the state still holds the previous month
+  useEffect(() => {
+    if (!isHydrated || hydratedMonth.current !== currentMonth) return;
+    const isArchived = months.some(m => m.month === currentMonth);
+    if (data.length === 0 && reviewQueue.length === 0 && !isArchived) return;
+
+    // Screenshots behind queued entries are kept too
+    const referenced = pruneSources(sources, [...history.steps.map(step => step.data), reviewQueue.map(item => item.entry)]);
+    saveMonth({ month: currentMonth, entries: data, history, sources: referenced, reviewQueue, bankConfigs, userComment })
+      .then(refreshMonths)
+      .catch(err => console.error("Failed to save session", err));
+  }, [isHydrated, currentMonth, history, sources, reviewQueue, bankConfigs, userComment]);
+
+  // Every mutation of data goes through here so it can be undone
+  const commitData = (label: string, update: (prev: CashbackEntry[]) => CashbackEntry[]) => {
+    setHistory(prev => pushHistory(prev, label, update(currentData(prev))));
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y, except while typing where the browser's own undo applies
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        setHistory(redo);
+      } else if (key === 'z') {
+        e.preventDefault();
+        setHistory(undo);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    saveSpendingProfile(spendingProfile);
+  }, [spendingProfile]);
+
+  useEffect(() => {
+    saveCategoryOverrides(categoryOverrides);
+  }, [categoryOverrides]);
+
+  useEffect(() => {
+    saveAiSettings(aiSettings);
+  }, [aiSettings]);
+
+  const dataCategories = useMemo(
+    () => Array.from(new Set(data.map(d => d.category.trim()))),
+    [data]
+  );
 
   const toggleBank = (bank: string) => {
     setBankConfigs(prev => ({
@@ -51,35 +186,124 @@ const App: React.FC = () => {
     }
   };
 
-  const handleFilesSelected = async (files: File[]) => {
-    setStatus({ total: files.length, processed: 0, isProcessing: true, error: undefined });
-    
-    let newEntries: CashbackEntry[] = [];
-    
-    // 1. Process Text Context First (if any)
-    if (userComment.trim()) {
-      try {
-        const contextEntries = await parseUserContext(userComment);
-        newEntries = [...newEntries, ...contextEntries];
-      } catch (err) {
-        console.error("Context parsing failed", err);
-      }
+  // Empty input removes the cap
+  const updateCap = (bank: string, field: 'monthlyCap' | 'categoryCap', value: string) => {
+    const num = parseInt(value);
+    if (value.trim() === "" || (!isNaN(num) && num >= 0)) {
+      setBankConfigs(prev => ({
+        ...prev,
+        [bank]: { ...prev[bank], [field]: value.trim() === "" ? undefined : num }
+      }));
     }
+  };
 
-    // 2. Process Files
-    for (let i = 0; i < files.length; i++) {
-      try {
-        const entries = await parseCashbackScreenshot(files[i]);
-        newEntries = [...newEntries, ...entries];
-        setStatus(prev => ({ ...prev, processed: prev.processed + 1 }));
-      } catch (error) {
-        console.error(`Failed to process file ${files[i].name}`, error);
-        setStatus(prev => ({ ...prev, error: `Ошибка при обработке файла ${files[i].name}. Попробуйте еще раз.` }));
+  const updateCurrency = (bank: string, currency: string) => {
+    if (!isRewardCurrency(currency)) return;
+    setBankConfigs(prev => ({
+      ...prev,
+      [bank]: { ...prev[bank], currency }
+    }));
+  };
+
+  const updatePointValue = (bank: string, value: string) => {
+    const num = parseFloat(value.replace(',', '.'));
+    if (!isNaN(num) && num >= 0) {
+      setBankConfigs(prev => ({
+        ...prev,
+        [bank]: { ...prev[bank], pointValue: num }
+      }));
+    }
+  };
+
+  // Each file's offers land in the matrix as soon as it is parsed; doubtful ones wait for review
+  const mergeParsed = (entries: CashbackEntry[], newSources: SourceImage[], label: string) => {
+    const { accepted, review } = triageEntries(entries, Object.keys(bankConfigs));
+    if (entries.length > 0 && newSources.length > 0) setSources(prev => [...prev, ...newSources]);
+    if (review.length > 0) setReviewQueue(prev => [...prev, ...review]);
+    if (accepted.length > 0) commitData(label, prev => [...prev, ...accepted]);
+  };
+
+  const updateJob = (jobId: string, patch: Partial<UploadJob>) =>
+    setJobs(prev => prev.map(job => (job.id === jobId ? { ...job, ...patch } : job)));
+
+  const runJob = async (job: UploadJob) => {
+    const controller = new AbortController();
+    jobControllers.current.set(job.id, controller);
+    try {
+      const result = await processUpload(job.file, {
+        aiSettings,
+        year: Number(currentMonth.slice(0, 4)),
+        owner: job.owner,
+        signal: controller.signal,
+        force: job.force,
+        knownImages: () => [...liveSourcesRef.current, ...Array.from(jobImages.current.values()).flat()],
+        onImage: (image) => jobImages.current.set(job.id, [...(jobImages.current.get(job.id) ?? []), image]),
+        onRetry: (attempt, waitMs) => updateJob(job.id, { attempt, error: `Лимит запросов, повтор через ${Math.round(waitMs / 1000)} с` }),
+      });
+      // The same screenshot twice is skipped unless the user insists
+      if (result.sources.length === 0 && result.duplicates.length > 0) {
+        updateJob(job.id, { status: 'skipped', error: `Уже загружен: ${result.duplicates.join(', ')}` });
+        return;
+      }
+      mergeParsed(result.entries, result.sources, `Файл: ${job.file.name}`);
+      updateJob(job.id, {
+        status: 'done',
+        found: result.entries.length,
+        cached: result.cached && result.sources.length > 0,
+        duplicates: result.duplicates.length || undefined,
+        lookalikes: result.lookalikes.length > 0 ? result.lookalikes : undefined,
+        error: undefined,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateJob(job.id, { status: 'cancelled', error: undefined });
+      } else {
+        console.error(`Failed to process file ${job.file.name}`, error);
+        updateJob(job.id, { status: 'failed', error: error instanceof Error ? error.message : 'Не удалось обработать файл' });
       }
+    } finally {
+      jobControllers.current.delete(job.id);
+      jobImages.current.delete(job.id);
     }
+  };
+
+  // Starts queued files while fewer than UPLOAD_CONCURRENCY are running
+  useEffect(() => {
+    const running = jobs.filter(job => job.status === 'running').length;
+    const next = jobs.filter(job => job.status === 'queued').slice(0, Math.max(0, UPLOAD_CONCURRENCY - running));
+    if (next.length === 0) return;
+    const ids = new Set(next.map(job => job.id));
+    setJobs(prev => prev.map(job => (ids.has(job.id) ? { ...job, status: 'running' } : job)));
+    next.forEach(runJob);
+  }, [jobs]);
+
+  const handleFilesSelected = (files: File[]) => {
+    // The comment is read once per batch, alongside the files
+    if (userComment.trim()) {
+      parseUserContext(userComment)
+        .then(entries => mergeParsed(entries.map(e => ({ ...e, owner: activeOwner || undefined })), [], 'Комментарий к загрузке'))
+        .catch(err => console.error("Context parsing failed", err));
+    }
+    const newJobs = files.map(file => createUploadJob(file, activeOwner || undefined));
+    // Finished rows make room for the new batch; failed ones keep their retry button until "Скрыть"
+    setJobs(prev => [...prev.filter(job => isActiveJob(job) || job.status === 'failed'), ...newJobs]);
+  };
+
+  const handleCancelJob = (jobId: string) => {
+    const controller = jobControllers.current.get(jobId);
+    if (controller) controller.abort();
+    else updateJob(jobId, { status: 'cancelled' });
+  };
 
-    setData(prev => [...prev, ...newEntries]);
-    setStatus(prev => ({ ...prev, isProcessing: false }));
+  const handleCancelAllJobs = () => {
+    jobControllers.current.forEach(controller => controller.abort());
+    setJobs(prev => prev.map(job => (job.status === 'queued' ? { ...job, status: 'cancelled' } : job)));
+  };
+
+  const handleRetryJob = (jobId: string) => {
+    setJobs(prev => prev.map(job => (job.id === jobId
+      ? { ...job, status: 'queued', attempt: 0, error: undefined, found: undefined, duplicates: undefined, lookalikes: undefined, force: job.force || job.status === 'skipped' }
+      : job)));
   };
 
   const handleRefineData = async () => {
@@ -87,9 +311,9 @@ const App: React.FC = () => {
     
     setIsRefining(true);
     try {
-      const updatedData = await refineDataWithContext(data, refinementComment);
-      setData(updatedData);
-      setRefinementComment(""); // Clear comment on success
+      // Nothing touches data until the user reviews the proposed operations
+      const operations = await refineDataWithContext(data, refinementComment);
+      setPendingPatch({ instruction: refinementComment, operations });
     } catch (error) {
       console.error("Refinement failed", error);
       alert("Не удалось обновить данные. Попробуйте переформулировать запрос.");
@@ -98,13 +322,115 @@ const App: React.FC = () => {
     }
   };
 
-  const handleUpdateData = (newData: CashbackEntry[]) => {
-    setData(newData);
+  const handleApplyPatch = (accepted: PatchOperation[]) => {
+    commitData(`Правка ИИ: «${pendingPatch?.instruction ?? ''}»`, prev => applyPatch(prev, accepted));
+    setPendingPatch(null);
+    setRefinementComment(""); // Clear comment once applied
+  };
+
+  // Remember the user's fix and re-map every entry that uses the same wording
+  const handleRemapCategory = (rawLabel: string, categoryId: string | null) => {
+    const nextOverrides = setCategoryOverride(categoryOverrides, rawLabel, categoryId);
+    const norm = normalizeCategoryLabel(rawLabel);
+    setCategoryOverrides(nextOverrides);
+    commitData(`Категория «${rawLabel}» → ${getCategoryById(categoryId ?? undefined)?.name ?? 'как есть'}`, prev => prev.map(entry =>
+      normalizeCategoryLabel(entry.rawCategory ?? entry.category) === norm
+        ? applyCanonicalCategory(entry, nextOverrides)
+        : entry
+    ));
+  };
+
+  const handleAcceptReview = (entryId: string, entry: CashbackEntry) => {
+    setReviewQueue(prev => prev.filter(item => item.entry.id !== entryId));
+    commitData(`Проверено: ${entry.bankName} · ${entry.category} ${entry.percentage}%`, prev => [...prev, entry]);
+  };
+
+  const handleRejectReview = (entryId: string) => {
+    setReviewQueue(prev => prev.filter(item => item.entry.id !== entryId));
+  };
+
+  const handleImport = (result: ImportResult, mode: ImportMode, fileName: string) => {
+    // Snapshot entries were already checked when first parsed; CSV rows and bare arrays are validated like fresh ones
+    const { accepted, review } = result.isSnapshot
+      ? { accepted: result.entries, review: [] }
+      : triageEntries(result.entries, Object.keys(result.bankConfigs ?? bankConfigs));
+
+    if (mode === 'restore') {
+      if (result.bankConfigs) setBankConfigs(result.bankConfigs);
+      if (result.spendingProfile) setSpendingProfile(result.spendingProfile);
+      setReviewQueue(review);
+      commitData(`Импорт (замена): ${fileName}`, () => accepted);
+    } else {
+      if (result.bankConfigs) setBankConfigs(prev => mergeBankConfigs(prev, result.bankConfigs));
+      setReviewQueue(prev => [...prev, ...review]);
+      commitData(`Импорт: ${fileName}`, prev => mergeEntries(prev, accepted));
+    }
+  };
+
+  const handleSaveMerchant = (merchant: MerchantDefinition) => {
+    const next = [merchant, ...customMerchants.filter(m => m.name.toLowerCase() !== merchant.name.toLowerCase())];
+    setCustomMerchants(next);
+    saveCustomMerchants(next);
+  };
+
+  const handleAddBank = (bank: BankDefinition) => {
+    const next = [bank, ...customBanks.filter(b => b.name !== bank.name)];
+    setCustomBanks(next);
+    saveCustomBanks(next);
+    setBankConfigs(prev => ({ ...prev, [bank.name]: isCardRemoved(prev[bank.name]) ? toBankConfig(bank) : prev[bank.name] }));
+  };
+
+  const handleRemoveBank = (name: string) => {
+    const next = customBanks.filter(b => b.name !== name);
+    setCustomBanks(next);
+    saveCustomBanks(next);
+    // Built-in banks keep their column, only user-added ones go away
+    if (!BANK_REGISTRY.some(b => b.name === name)) {
+      setBankConfigs(prev => removeBankCards(prev, name));
+    }
+  };
+
+  const handleAddMember = (name: string) => {
+    const next = [...members, name];
+    setMembers(next);
+    saveHouseholdMembers(next);
+  };
+
+  const handleRemoveMember = (name: string) => {
+    const next = members.filter(m => m !== name);
+    setMembers(next);
+    saveHouseholdMembers(next);
+    setBankConfigs(prev => removeMemberCards(prev, name));
+    if (activeOwner === name) setActiveOwner("");
+  };
+
+  const handleToggleCard = (bank: string, owner: string) => {
+    setBankConfigs(prev => toggleCard(prev, bank, owner));
+  };
+
+  const handleUpdateData = (newData: CashbackEntry[], label = 'Ручное изменение') => {
+    commitData(label, () => newData);
+  };
+
+  const handleOpenMonth = (month: string) => {
+    // Results of a running upload belong to the month it was started in
+    handleCancelAllJobs();
+    setCurrentMonth(month);
+  };
+
+  const handleDeleteMonth = async (month: string) => {
+    if (!confirm(`Удалить данные за ${formatMonthKey(month)}?`)) return;
+    try {
+      await deleteMonth(month);
+      await refreshMonths();
+    } catch (err) {
+      console.error("Failed to delete month", err);
+    }
   };
 
   const handleClearData = () => {
     if (confirm('Вы уверены? Все распознанные данные будут удалены.')) {
-      setData([]);
+      commitData('Очистка таблицы', () => []);
     }
   };
 
@@ -121,8 +447,9 @@ const App: React.FC = () => {
             Анализатор Кэшбэка
           </h1>
           <p className="text-slate-400 max-w-xl mx-auto text-sm">
-            Умный помощник для выбора категорий в Сбер, Т-Банк, Альфа, ВТБ и Яндекс
+            Умный помощник для выбора категорий в Сбер, Т-Банк, Альфа, ВТБ, Яндекс и других банках
           </p>
+          <p className="text-xs text-amber-400/80 capitalize">{formatMonthKey(currentMonth)}</p>
         </header>
 
         {/* Configuration Panel */}
@@ -133,7 +460,7 @@ const App: React.FC = () => {
           >
             <div className="flex items-center gap-2 text-slate-200 font-medium">
               <Settings2 className="w-5 h-5 text-emerald-400" />
-              Настройки банков и лимиты
+              Настройки банков, лимиты и траты
             </div>
             <span className="text-xs text-slate-500">{showSettings ? 'Свернуть' : 'Развернуть'}</span>
           </div>
@@ -141,7 +468,7 @@ const App: React.FC = () => {
           {showSettings && (
             <div className="p-4 pt-0 border-t border-slate-800/50 grid gap-4">
               <div className="flex flex-wrap gap-3 mt-4 justify-center sm:justify-start">
-                {(Object.entries(bankConfigs) as [string, BankConfig][]).map(([bank, config]) => (
+                {(Object.entries(bankConfigs) as [string, BankConfig][]).filter(([, config]) => !config.removed).map(([bank, config]) => (
                   <div 
                     key={bank}
                     className={`
@@ -173,9 +500,102 @@ const App: React.FC = () => {
                         />
                       </div>
                     )}
+                    {config.enabled && (
+                      <div className="flex items-center gap-1 bg-slate-900 rounded px-1.5 py-0.5 border border-slate-700" title="Максимум кэшбэка в валюте банка: всего в месяц / на одну категорию">
+                        <span className="text-[10px] text-slate-500">{REWARD_CURRENCIES[config.currency ?? 'rub'].short} MAX</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="500"
+                          value={config.monthlyCap ?? ''}
+                          placeholder="∞"
+                          onChange={(e) => updateCap(bank, 'monthlyCap', e.target.value)}
+                          className="w-12 bg-transparent text-center text-xs text-amber-400 focus:outline-none placeholder:text-slate-600"
+                        />
+                        <span className="text-[10px] text-slate-600">/</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="100"
+                          value={config.categoryCap ?? ''}
+                          placeholder="∞"
+                          onChange={(e) => updateCap(bank, 'categoryCap', e.target.value)}
+                          className="w-12 bg-transparent text-center text-xs text-amber-400 focus:outline-none placeholder:text-slate-600"
+                        />
+                      </div>
+                    )}
+                    {config.enabled && (
+                      <div className="flex items-center gap-1 bg-slate-900 rounded px-1.5 py-0.5 border border-slate-700" title="В чём начисляется кэшбэк и сколько ₽ стоит один балл">
+                        <select
+                          value={config.currency ?? 'rub'}
+                          onChange={(e) => updateCurrency(bank, e.target.value)}
+                          className="bg-transparent text-xs text-cyan-400 focus:outline-none"
+                        >
+                          {(Object.entries(REWARD_CURRENCIES) as [RewardCurrency, { short: string }][]).map(([key, info]) => (
+                            <option key={key} value={key} className="bg-slate-900">{info.short}</option>
+                          ))}
+                        </select>
+                        {(config.currency ?? 'rub') !== 'rub' && (
+                          <>
+                            <span className="text-[10px] text-slate-600">=</span>
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.1"
+                              value={config.pointValue ?? REWARD_CURRENCIES[config.currency!].defaultValue}
+                              onChange={(e) => updatePointValue(bank, e.target.value)}
+                              className="w-10 bg-transparent text-center text-xs text-cyan-400 focus:outline-none"
+                            />
+                            <span className="text-[10px] text-slate-500">₽</span>
+                          </>
+                        )}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
+
+              <div className="border-t border-slate-800/50 pt-4">
+                <HouseholdEditor
+                  members={members}
+                  banks={householdBanks(bankConfigs, getBankRegistry(customBanks))}
+                  bankConfigs={bankConfigs}
+                  onAddMember={handleAddMember}
+                  onRemoveMember={handleRemoveMember}
+                  onToggleCard={handleToggleCard}
+                />
+              </div>
+
+              <div className="border-t border-slate-800/50 pt-4">
+                <BankRegistryEditor customBanks={customBanks} onAdd={handleAddBank} onRemove={handleRemoveBank} />
+              </div>
+
+              <div className="border-t border-slate-800/50 pt-4">
+                <AiSettingsEditor settings={aiSettings} onChange={setAiSettings} />
+              </div>
+
+              <div className="border-t border-slate-800/50 pt-4">
+                <SpendingProfileEditor
+                  profile={spendingProfile}
+                  categories={dataCategories}
+                  onChange={setSpendingProfile}
+                />
+              </div>
+
+              <div className="border-t border-slate-800/50 pt-4">
+                <StatementImport
+                  profile={spendingProfile}
+                  onChange={setSpendingProfile}
+                  customMerchants={customMerchants}
+                  onSaveMerchant={handleSaveMerchant}
+                />
+              </div>
+
+              {data.length > 0 && (
+                <div className="border-t border-slate-800/50 pt-4">
+                  <CategoryMappingEditor data={data} onRemap={handleRemapCategory} />
+                </div>
+              )}
             </div>
           )}
         </section>
@@ -183,10 +603,25 @@ const App: React.FC = () => {
         {/* Processing Area */}
         <section className="grid gap-6 md:grid-cols-[1.5fr_1fr]">
           <div className="space-y-4">
-            <h3 className="text-sm font-medium text-slate-400 ml-1">1. Загрузка скриншотов</h3>
+            <h3 className="text-sm font-medium text-slate-400 ml-1 flex items-center gap-2">
+              1. Загрузка скриншотов
+              {members.length > 0 && (
+                <select
+                  value={activeOwner}
+                  onChange={(e) => setActiveOwner(e.target.value)}
+                  title="Чьи карты на скриншотах"
+                  className="bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-xs text-slate-200 focus:outline-none focus:border-emerald-500"
+                >
+                  <option value="">Мои карты</option>
+                  {members.map(m => (
+                    <option key={m} value={m}>Карты: {m}</option>
+                  ))}
+                </select>
+              )}
+            </h3>
             <UploadZone 
               onFilesSelected={handleFilesSelected} 
-              disabled={status.isProcessing || isRefining} 
+              disabled={isRefining} 
             />
           </div>
 
@@ -201,7 +636,7 @@ const App: React.FC = () => {
                 onChange={(e) => setUserComment(e.target.value)}
                 placeholder="Например: 'В этом месяце мне нужен кэшбэк на Такси' или 'У Сбера есть скрытая категория Цветы 10%'"
                 className="w-full h-[180px] bg-slate-900/50 border border-slate-700 rounded-xl p-4 text-sm text-slate-300 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500/20 focus:outline-none resize-none placeholder:text-slate-600"
-                disabled={status.isProcessing || isRefining}
+                disabled={isRefining}
               />
               <div className="absolute bottom-3 right-3 text-slate-600">
                 <MessageSquarePlus className="w-5 h-5" />
@@ -211,31 +646,37 @@ const App: React.FC = () => {
         </section>
         
         {/* Progress Bar */}
-        {(status.isProcessing || isRefining) && (
+        {isRefining && (
           <div className="bg-slate-800 rounded-lg p-4 flex items-center gap-4 border border-slate-700 animate-pulse">
             <Loader2 className="w-6 h-6 text-emerald-500 animate-spin" />
             <div className="flex-1">
               <div className="flex justify-between text-sm mb-1">
                 <span className="text-slate-200">
-                  {isRefining ? 'Внесение изменений в таблицу...' : 'Анализ изображений и контекста...'}
+                  Внесение изменений в таблицу...
                 </span>
-                {!isRefining && <span className="text-emerald-400">{Math.round((status.processed / status.total) * 100)}%</span>}
               </div>
               <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
-                <div 
-                  className="h-full bg-emerald-500 transition-all duration-300 ease-out"
-                  style={{ width: isRefining ? '100%' : `${(status.processed / status.total) * 100}%` }}
-                />
+                <div className="h-full bg-emerald-500 w-full" />
               </div>
             </div>
           </div>
         )}
         
-        {status.error && (
-          <div className="p-4 bg-red-900/20 border border-red-900/50 text-red-300 rounded-lg text-sm text-center">
-            {status.error}
-          </div>
-        )}
+        <UploadJobList
+          jobs={jobs}
+          onCancel={handleCancelJob}
+          onRetry={handleRetryJob}
+          onCancelAll={handleCancelAllJobs}
+          onClearFinished={() => setJobs(prev => prev.filter(isActiveJob))}
+        />
+
+        <ReviewQueue
+          items={reviewQueue}
+          knownBanks={Object.keys(bankConfigs)}
+          sources={sources}
+          onAccept={handleAcceptReview}
+          onReject={handleRejectReview}
+        />
 
         {/* Results Section */}
         <section>
@@ -243,9 +684,37 @@ const App: React.FC = () => {
             <div className="space-y-6 animate-in fade-in slide-in-from-bottom-8 duration-700">
               <DataTable 
                 data={data} 
+                month={currentMonth}
                 onUpdate={handleUpdateData} 
                 onClear={handleClearData}
+                sources={sources}
+                bankConfigs={bankConfigs}
+                spendingProfile={spendingProfile}
+              />
+
+              <CardLookup
+                data={data}
+                month={currentMonth}
+                bankConfigs={bankConfigs}
+                spendingProfile={spendingProfile}
+                customMerchants={customMerchants}
+                onSaveMerchant={handleSaveMerchant}
+              />
+
+              <PurchaseAdvisor
+                data={data}
+                month={currentMonth}
+                bankConfigs={bankConfigs}
+                spendingProfile={spendingProfile}
+              />
+
+              {/* Keyed by month: imported purchases and typed payouts belong to one month */}
+              <ReconciliationPanel
+                key={currentMonth}
+                data={data}
+                month={currentMonth}
                 bankConfigs={bankConfigs}
+                spendingProfile={spendingProfile}
               />
               
               {/* Refinement Block */}
@@ -265,21 +734,33 @@ const App: React.FC = () => {
                     placeholder="Ваш комментарий для ИИ..."
                     className="w-full bg-slate-900 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none min-h-[80px]"
                   />
+                  {pendingPatch && (
+                    <div className="mt-3">
+                      <PatchReview
+                        key={pendingPatch.instruction}
+                        instruction={pendingPatch.instruction}
+                        operations={pendingPatch.operations}
+                        data={data}
+                        onApply={handleApplyPatch}
+                        onCancel={() => setPendingPatch(null)}
+                      />
+                    </div>
+                  )}
                 </div>
                 <div className="sm:mt-12">
                    <button 
                     onClick={handleRefineData}
-                    disabled={isRefining || !refinementComment.trim()}
+                    disabled={isRefining || !refinementComment.trim() || pendingPatch !== null}
                     className="whitespace-nowrap px-5 py-3 bg-purple-600 hover:bg-purple-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg font-medium transition-colors flex items-center gap-2 shadow-lg shadow-purple-900/20"
                    >
                      {isRefining ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
-                     Применить правки
+                     Предложить правки
                    </button>
                 </div>
               </div>
             </div>
           ) : (
-            !status.isProcessing && !isRefining && (
+            !isUploading && !isRefining && (
               <div className="text-center py-8 border border-slate-800 rounded-xl bg-slate-900/30 border-dashed">
                 <Sparkles className="w-10 h-10 text-slate-700 mx-auto mb-3" />
                 <p className="text-slate-500 text-sm">
@@ -290,8 +771,33 @@ const App: React.FC = () => {
           )}
         </section>
 
+        {history.steps.length > 1 && (
+          <EditHistory
+            history={history}
+            onUndo={() => setHistory(undo)}
+            onRedo={() => setHistory(redo)}
+            onJump={(index) => setHistory(prev => jumpTo(prev, index))}
+          />
+        )}
+
+        <ExportPanel
+          month={currentMonth}
+          data={data}
+          bankConfigs={bankConfigs}
+          spendingProfile={spendingProfile}
+          onImport={handleImport}
+        />
+
+        <HistoryPanel
+          currentMonth={currentMonth}
+          currentData={data}
+          months={months}
+          onOpen={handleOpenMonth}
+          onDelete={handleDeleteMonth}
+        />
+
         <footer className="text-center text-slate-700 text-xs py-4">
-          Powered by Google Gemini 2.0 Flash
+          Powered by {AI_PROVIDERS[aiSettings.provider].label}{aiSettings.provider !== 'mock' && ` · ${aiSettings.model}`}
         </footer>
       </div>
     </div>
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Bot, Eraser } from 'lucide-react';
+import { AiProviderId, AiSettings, ParseMode } from '../types';
+import { AI_PROVIDERS, DEFAULT_OPENAI_BASE_URL } from '../services/aiProvider';
+import { PARSE_MODE_LABELS } from '../services/screenshotParser';
+import { clearParseCache } from '../services/parseCache';
+import { prepareOcr } from '../services/ocrService';
+
+interface AiSettingsEditorProps {
+  settings: AiSettings;
+  onChange: (settings: AiSettings) => void;
+}
+
+const inputClass = "bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-emerald-500 placeholder:text-slate-600";
+
+export const AiSettingsEditor: React.FC<AiSettingsEditorProps> = ({ settings, onChange }) => {
+  const [ocrError, setOcrError] = useState<string | null>(null);
+  const usesOcr = (settings.parseMode ?? 'ai') !== 'ai';
+
+  // Offline modes load the OCR language packs up front, so a missing pack shows here and not on the first upload
+  useEffect(() => {
+    if (!usesOcr) {
+      setOcrError(null);
+      return;
+    }
+    let isCurrent = true;
+    prepareOcr()
+      .then(() => isCurrent && setOcrError(null))
+      .catch(error => isCurrent && setOcrError(error instanceof Error ? error.message : 'Не удалось запустить офлайн-распознавание'));
+    return () => {
+      isCurrent = false;
+    };
+  }, [usesOcr]);
+
+  const handleProviderChange = (provider: AiProviderId) => {
+    // Switching provider resets the model to that provider's default and drops the key and server,
+    // so a key typed for one provider is never sent to another
+    onChange({ ...settings, provider, model: AI_PROVIDERS[provider].defaultModel, apiKey: undefined, baseUrl: undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-slate-300 font-medium">
+        <Bot className="w-4 h-4 text-emerald-400" />
+        Модель для распознавания
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={settings.parseMode ?? 'ai'}
+          onChange={(e) => onChange({ ...settings, parseMode: e.target.value as ParseMode })}
+          className={inputClass}
+          title="Способ распознавания скриншотов"
+        >
+          {(Object.entries(PARSE_MODE_LABELS) as [ParseMode, string][]).map(([mode, label]) => (
+            <option key={mode} value={mode}>{label}</option>
+          ))}
+        </select>
+
+        <select
+          value={settings.provider}
+          onChange={(e) => handleProviderChange(e.target.value as AiProviderId)}
+          className={inputClass}
+        >
+          {Object.values(AI_PROVIDERS).map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+
+        {settings.provider !== 'mock' && (
+          <input
+            type="text"
+            value={settings.model}
+            onChange={(e) => onChange({ ...settings, model: e.target.value })}
+            placeholder={AI_PROVIDERS[settings.provider].defaultModel}
+            className={`${inputClass} w-48`}
+          />
+        )}
+
+        {settings.provider === 'openai' && (
+          <input
+            type="text"
+            value={settings.baseUrl ?? ''}
+            onChange={(e) => onChange({ ...settings, baseUrl: e.target.value || undefined })}
+            placeholder={DEFAULT_OPENAI_BASE_URL}
+            className={`${inputClass} w-56`}
+          />
+        )}
+
+        {settings.provider !== 'mock' && (
+          <input
+            type="password"
+            value={settings.apiKey ?? ''}
+            onChange={(e) => onChange({ ...settings, apiKey: e.target.value || undefined })}
+            placeholder={settings.provider === 'gemini' ? 'API-ключ (по умолчанию из .env)' : 'API-ключ (если нужен)'}
+            className={`${inputClass} w-56`}
+          />
+        )}
+
+        {/* Re-uploaded screenshots reuse their old result until the cache is cleared */}
+        <button
+          onClick={() => {
+            clearParseCache();
+            alert('Кэш распознавания очищен.');
+          }}
+          className="px-3 py-1.5 text-xs text-slate-400 hover:text-slate-200 rounded-lg flex items-center gap-1 border border-slate-700"
+          title="Заново распознавать уже загружавшиеся скриншоты"
+        >
+          <Eraser className="w-3 h-3" />
+          Очистить кэш
+        </button>
+      </div>
+      {ocrError && (
+        <div className="text-xs text-red-400 flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3" />
+          {ocrError}
+        </div>
+      )}
+    </div>
+  );
+};
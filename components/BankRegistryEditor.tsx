@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Landmark, Plus, X } from 'lucide-react';
+import { BankDefinition } from '../types';
+import { BANK_COLORS, BANK_PRESETS, BANK_REGISTRY } from '../services/bankRegistry';
+
+interface BankRegistryEditorProps {
+  customBanks: BankDefinition[];
+  onAdd: (bank: BankDefinition) => void;
+  onRemove: (name: string) => void;
+}
+
+const EMPTY_FORM = { name: '', aliases: '', hints: '', limit: '4', color: BANK_COLORS[0] };
+
+const splitList = (text: string) => text.split(',').map(s => s.trim()).filter(Boolean);
+
+export const BankRegistryEditor: React.FC<BankRegistryEditorProps> = ({ customBanks, onAdd, onRemove }) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [preset, setPreset] = useState<BankDefinition | null>(null);
+
+  const knownNames = new Set([...BANK_REGISTRY, ...customBanks].map(b => b.name.toLowerCase()));
+  const presets = BANK_PRESETS.filter(p => !knownNames.has(p.name.toLowerCase()));
+
+  const pickPreset = (bank: BankDefinition) => {
+    setPreset(bank);
+    setForm({
+      name: bank.name,
+      aliases: bank.aliases.join(', '),
+      hints: bank.hints ?? '',
+      limit: String(bank.limit),
+      color: bank.color,
+    });
+  };
+
+  const handleAdd = () => {
+    const name = form.name.trim();
+    const limit = parseInt(form.limit);
+    if (!name || isNaN(limit) || limit < 1) return;
+    // Preset extras (keywords, currency) survive as long as the name wasn't changed
+    const base = preset && preset.name === name ? preset : undefined;
+    onAdd({
+      ...base,
+      name,
+      aliases: splitList(form.aliases),
+      hints: form.hints.trim() || undefined,
+      limit,
+      color: form.color,
+    });
+    setForm(EMPTY_FORM);
+    setPreset(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-slate-300 font-medium">
+        <Landmark className="w-4 h-4 text-emerald-400" />
+        Свои банки
+        <span className="text-[10px] text-slate-500 font-normal">
+          Названия и написания используются при распознавании
+        </span>
+      </div>
+
+      {customBanks.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {customBanks.map(bank => (
+            <div key={bank.name} className="flex items-center gap-2 bg-slate-800/60 border border-slate-700 rounded-lg px-2 py-1.5 text-xs">
+              <span className={bank.color.split(' ')[0]}>{bank.name}</span>
+              {bank.aliases.length > 0 && <span className="text-slate-500">{bank.aliases.join(', ')}</span>}
+              <button onClick={() => onRemove(bank.name)} className="text-slate-500 hover:text-red-400">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {presets.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-slate-500">Быстро добавить:</span>
+          {presets.map(bank => (
+            <button
+              key={bank.name}
+              onClick={() => pickPreset(bank)}
+              className={`px-2 py-1 text-xs rounded border bg-slate-800 hover:bg-slate-700 ${bank.color}`}
+            >
+              {bank.aliases[0] ?? bank.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="Название (Ozon)"
+          className="w-32 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-emerald-500"
+        />
+        <input
+          type="text"
+          value={form.aliases}
+          onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+          placeholder="Другие написания через запятую"
+          className="flex-1 min-w-[180px] bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-emerald-500"
+        />
+        <input
+          type="text"
+          value={form.hints}
+          onChange={(e) => setForm({ ...form, hints: e.target.value })}
+          placeholder="Как выглядит приложение (для ИИ)"
+          className="flex-1 min-w-[180px] bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-emerald-500"
+        />
+        <span className="text-xs text-slate-500">TOP</span>
+        <input
+          type="number"
+          min="1"
+          max="10"
+          value={form.limit}
+          onChange={(e) => setForm({ ...form, limit: e.target.value })}
+          className="w-12 bg-slate-900 border border-slate-700 rounded px-1 py-1 text-xs text-center text-slate-200 focus:outline-none focus:border-emerald-500"
+        />
+        <select
+          value={form.color}
+          onChange={(e) => setForm({ ...form, color: e.target.value })}
+          className={`bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs focus:outline-none focus:border-emerald-500 ${form.color.split(' ')[0]}`}
+        >
+          {BANK_COLORS.map(color => (
+            <option key={color} value={color}>{color.split(' ')[0].replace('text-', '').replace('-400', '').replace('-300', '')}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={!form.name.trim()}
+          className="px-3 py-1 text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" />
+          Добавить банк
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { Search, Loader2, Sparkles, CreditCard, Plus, Store } from 'lucide-react';
+import { BankConfig, CashbackEntry, MerchantDefinition, SpendingProfile } from '../types';
+import { buildMatrix, describeCell, formatRub, recommendCard } from '../services/matrix';
+import { CATEGORY_CATALOG, findCategoryByMcc, getCategoryById } from '../services/categoryCatalog';
+import { getMerchantCatalog, resolveMerchantQuery } from '../services/merchantCatalog';
+import { classifyMerchant } from '../services/geminiService';
+
+interface CardLookupProps {
+  data: CashbackEntry[];
+  month: string;
+  bankConfigs: Record<string, BankConfig>;
+  spendingProfile: SpendingProfile;
+  customMerchants: MerchantDefinition[];
+  onSaveMerchant: (merchant: MerchantDefinition) => void;
+}
+
+export const CardLookup: React.FC<CardLookupProps> = ({ data, month, bankConfigs, spendingProfile, customMerchants, onSaveMerchant }) => {
+  const [query, setQuery] = useState("");
+  const [aiGuess, setAiGuess] = useState<{ query: string; categoryId?: string; mcc?: string } | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+  const [newMcc, setNewMcc] = useState("");
+  const [newCategoryId, setNewCategoryId] = useState("");
+
+  const cashbackMatrix = useMemo(
+    () => buildMatrix(data, bankConfigs, spendingProfile, month),
+    [data, bankConfigs, spendingProfile, month]
+  );
+  const catalog = useMemo(() => getMerchantCatalog(customMerchants), [customMerchants]);
+
+  const trimmed = query.trim();
+  const resolution = useMemo(() => resolveMerchantQuery(trimmed, catalog), [trimmed, catalog]);
+  const guess = aiGuess && aiGuess.query === trimmed ? aiGuess : null;
+  const categoryId = resolution.categoryId ?? guess?.categoryId;
+  const mcc = resolution.mcc ?? guess?.mcc;
+  const category = getCategoryById(categoryId);
+  const recommendation = recommendCard(cashbackMatrix, categoryId);
+  const isUnknownMerchant = trimmed.length > 0 && !resolution.merchant && !/^\d{4}$/.test(trimmed);
+
+  const handleAskAi = async () => {
+    setIsAsking(true);
+    try {
+      const result = await classifyMerchant(trimmed);
+      setAiGuess({ query: trimmed, ...result });
+      setNewCategoryId(result.categoryId ?? "");
+      setNewMcc(result.mcc ?? "");
+    } catch (error) {
+      alert("Не удалось определить категорию продавца.");
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const handleSaveMerchant = () => {
+    const resolvedCategory = newCategoryId || (newMcc ? findCategoryByMcc(newMcc)?.id : undefined);
+    if (!trimmed || !resolvedCategory) return;
+    const merchant: MerchantDefinition = {
+      name: trimmed,
+      aliases: [],
+      mcc: /^\d{4}$/.test(newMcc) ? newMcc : undefined,
+      categoryId: resolvedCategory,
+    };
+    onSaveMerchant(merchant);
+    setNewMcc("");
+    setNewCategoryId("");
+  };
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-6 space-y-4">
+      <h3 className="text-lg font-medium text-slate-200 flex items-center gap-2">
+        <CreditCard className="w-5 h-5 text-cyan-400" />
+        Какой картой платить?
+      </h3>
+
+      <div className="relative">
+        <Search className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Магазин ('Пятёрочка', 'Яндекс Go') или MCC-код (5411)"
+          className="w-full bg-slate-900 border border-slate-700 rounded-lg pl-9 pr-3 py-2.5 text-sm text-slate-200 focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500/20 focus:outline-none placeholder:text-slate-600"
+        />
+      </div>
+
+      {trimmed && (
+        <div className="space-y-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+            {resolution.merchant && (
+              <span className="flex items-center gap-1 bg-slate-800 px-2 py-1 rounded">
+                <Store className="w-3 h-3" /> {resolution.merchant.name}
+              </span>
+            )}
+            {mcc && <span className="bg-slate-800 px-2 py-1 rounded">MCC {mcc}</span>}
+            {category && <span className="bg-cyan-900/30 text-cyan-300 px-2 py-1 rounded">{category.name}</span>}
+            {guess && <span className="text-purple-400">по версии ИИ</span>}
+          </div>
+
+          {category ? (
+            recommendation.best ? (
+              <div className="p-3 rounded-lg bg-emerald-500/10 border border-emerald-500/40 text-emerald-300">
+                Платите картой <b>{recommendation.best.bank}</b> — {describeCell(recommendation.best)}
+                {recommendation.overflow.length > 0 && recommendation.row && (
+                  <div className="text-xs text-emerald-400/70 mt-1">
+                    После {formatRub(recommendation.row.allocation[0]?.spend ?? 0)} трат лимит исчерпан — дальше {recommendation.overflow.map(a => a.bank).join(', затем ')}
+                  </div>
+                )}
+              </div>
+            ) : recommendation.baseRate ? (
+              <div className="p-3 rounded-lg bg-slate-800 border border-slate-700 text-slate-300">
+                Категория не выбрана ни в одном банке. Базовый кэшбэк: <b>{recommendation.baseRate.bank}</b> — {describeCell(recommendation.baseRate)}
+              </div>
+            ) : (
+              <div className="p-3 rounded-lg bg-slate-800 border border-slate-700 text-slate-400">
+                В текущей матрице нет предложений для категории «{category.name}».
+              </div>
+            )
+          ) : (
+            <div className="p-3 rounded-lg bg-slate-800 border border-slate-700 text-slate-400">
+              {/^\d{4}$/.test(trimmed) ? 'Этот MCC-код не входит ни в одну категорию.' : 'Продавец не найден в справочнике.'}
+            </div>
+          )}
+
+          {recommendation.alternatives.length > 0 && (
+            <div className="text-xs text-slate-500">
+              Другие варианты: {recommendation.alternatives.map(a => `${a.bank} ${describeCell(a)}${a.isSelected ? '' : ' (не выбрана)'}`).join(', ')}
+            </div>
+          )}
+
+          {isUnknownMerchant && (
+            <div className="border-t border-slate-700/50 pt-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={handleAskAi}
+                  disabled={isAsking}
+                  className="px-3 py-1.5 text-xs bg-purple-600 hover:bg-purple-500 disabled:bg-slate-700 text-white rounded-lg flex items-center gap-1"
+                >
+                  {isAsking ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+                  Спросить ИИ
+                </button>
+                <span className="text-xs text-slate-500">или добавьте продавца в справочник:</span>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={newMcc}
+                  onChange={(e) => setNewMcc(e.target.value)}
+                  placeholder="MCC"
+                  maxLength={4}
+                  className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-cyan-500"
+                />
+                <select
+                  value={newCategoryId}
+                  onChange={(e) => setNewCategoryId(e.target.value)}
+                  className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-cyan-500"
+                >
+                  <option value="">Категория по MCC</option>
+                  {CATEGORY_CATALOG.map(c => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleSaveMerchant}
+                  disabled={!newCategoryId && !findCategoryByMcc(newMcc)}
+                  className="px-3 py-1 text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded flex items-center gap-1"
+                >
+                  <Plus className="w-3 h-3" />
+                  Сохранить «{trimmed}»
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
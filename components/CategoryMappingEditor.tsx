@@ -0,0 +1,59 @@
+import React from 'react';
+import { Tags } from 'lucide-react';
+import { CashbackEntry } from '../types';
+import { CATEGORY_CATALOG } from '../services/categoryCatalog';
+
+interface CategoryMappingEditorProps {
+  data: CashbackEntry[];
+  onRemap: (rawLabel: string, categoryId: string | null) => void;
+}
+
+const KEEP_RAW = '__raw__';
+
+export const CategoryMappingEditor: React.FC<CategoryMappingEditorProps> = ({ data, onRemap }) => {
+  // One row per distinct bank wording
+  const labels = new Map<string, { categoryId?: string; banks: Set<string> }>();
+  data.forEach(entry => {
+    const label = (entry.rawCategory ?? entry.category).trim();
+    const existing = labels.get(label) ?? { categoryId: entry.categoryId, banks: new Set<string>() };
+    existing.banks.add(entry.bankName);
+    labels.set(label, existing);
+  });
+
+  if (labels.size === 0) return null;
+
+  const rows = Array.from(labels.entries()).sort(([a], [b]) => a.localeCompare(b, 'ru'));
+  const catalog = [...CATEGORY_CATALOG].sort((a, b) => a.name.localeCompare(b.name, 'ru'));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-slate-300 font-medium">
+        <Tags className="w-4 h-4 text-emerald-400" />
+        Сопоставление категорий
+        <span className="text-[10px] text-slate-500 font-normal">Исправление запоминается для будущих загрузок</span>
+      </div>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {rows.map(([label, info]) => (
+          <div key={label} className="flex items-center gap-2 bg-slate-800/60 border border-slate-700 rounded-lg px-2 py-1.5">
+            <div className="flex-1 min-w-0">
+              <div className="text-xs text-slate-300 truncate" title={label}>{label}</div>
+              <div className="text-[10px] text-slate-500 truncate">{Array.from(info.banks).join(', ')}</div>
+            </div>
+            <select
+              value={info.categoryId ?? KEEP_RAW}
+              onChange={(e) => onRemap(label, e.target.value === KEEP_RAW ? null : e.target.value)}
+              className={`max-w-[160px] bg-slate-900 border rounded px-1.5 py-1 text-xs focus:outline-none focus:border-emerald-500 ${
+                info.categoryId ? 'border-slate-700 text-emerald-400' : 'border-amber-700/50 text-amber-400'
+              }`}
+            >
+              <option value={KEEP_RAW}>— Как есть —</option>
+              {catalog.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,94 +1,69 @@
-import React, { useMemo } from 'react';
-import { CashbackEntry } from '../types';
-import { Trash2, FileSpreadsheet, Trophy, Info, FileDown } from 'lucide-react';
-import { BankConfig } from '../App';
+import React, { useMemo, useState } from 'react';
+import { BankConfig, CashbackEntry, SourceImage, SpendingProfile } from '../types';
+import { Trash2, FileSpreadsheet, Trophy, Info, FileDown, Plus, Pin, Ban, Gift, Repeat, Clock } from 'lucide-react';
+import { buildMatrix, describeCell, FALLBACK_BANK_CONFIG, formatRub, MatrixCell } from '../services/matrix';
+import { REWARD_CURRENCIES } from '../services/rewards';
+import { ENTRY_KINDS } from '../services/entryKinds';
+import { formatDate } from '../services/validity';
+import { formatMonthKey } from '../services/historyStore';
+import { addOffer, clearCell, entriesInCell, mergeRows, renameRow, setCellKind, setCellPercentage, setCellSelection, setCellValidity } from '../services/matrixEdits';
+import { buildTextCheatSheet, downloadFile } from '../services/exportService';
+import { MatrixCellEditor } from './MatrixCellEditor';
+import { MatrixRowEditor } from './MatrixRowEditor';
 
 interface DataTableProps {
   data: CashbackEntry[];
-  onUpdate: (updatedData: CashbackEntry[]) => void;
+  month: string; // Selection month, decides which offers have expired
+  onUpdate: (updatedData: CashbackEntry[], label?: string) => void;
   onClear: () => void;
+  sources: SourceImage[];
   bankConfigs: Record<string, BankConfig>;
+  spendingProfile: SpendingProfile;
 }
 
-export const DataTable: React.FC<DataTableProps> = ({ data, onUpdate, onClear, bankConfigs }) => {
+const SELECTION_LABELS: Record<string, string> = {
+  forced: 'всегда выбирать',
+  excluded: 'не выбирать',
+};
+
+type Editing = { rowKey: string; bank?: string } | null;
+
+export const DataTable: React.FC<DataTableProps> = ({ data, month, onUpdate, onClear, sources, bankConfigs, spendingProfile }) => {
   
-  // 1. Process Data: Deduplicate and Normalize
-  const { matrix, targetBanks } = useMemo(() => {
-    // Determine active banks based on config
-    const activeBanks = Object.keys(bankConfigs).filter(b => bankConfigs[b].enabled);
+  const { matrix, targetBanks, totalExpected } = useMemo(
+    () => buildMatrix(data, bankConfigs, spendingProfile, month),
+    [data, bankConfigs, spendingProfile, month]
+  );
+  const [editing, setEditing] = useState<Editing>(null);
+  const [newBank, setNewBank] = useState("");
+  const [newCategory, setNewCategory] = useState("");
+  const [newPercentage, setNewPercentage] = useState("");
 
-    // Group by Bank -> Category to remove duplicates (keep max %)
-    const uniqueEntries = new Map<string, CashbackEntry>();
-    
-    data.forEach(entry => {
-      const normCat = entry.category.trim().toLowerCase();
-      let normBank = entry.bankName;
-      
-      // Normalize Bank Name
-      if (normBank.includes('Tinkoff')) normBank = 'T-Bank';
-      if (normBank.includes('Сбер')) normBank = 'Sber';
-      if (normBank.includes('Альфа')) normBank = 'Alfa';
-      if (normBank.includes('ВТБ')) normBank = 'VTB';
-      if (normBank.includes('Яндекс')) normBank = 'Yandex';
-
-      const key = `${normBank}|${normCat}`;
-      const existing = uniqueEntries.get(key);
-      
-      if (!existing || entry.percentage > existing.percentage) {
-        uniqueEntries.set(key, { ...entry, bankName: normBank, category: entry.category.trim() });
-      }
-    });
+  if (data.length === 0) return null;
 
-    const cleanData = Array.from(uniqueEntries.values());
+  const configOf = (bank: string) => bankConfigs[bank] ?? FALLBACK_BANK_CONFIG;
+  const editingRow = editing ? matrix.find(r => r.key === editing.rowKey) : undefined;
+  const editingCell = editing?.bank ? editingRow?.values.find(v => v.bank === editing.bank) : undefined;
 
-    // 2. Select Top N Categories for each Active Bank
-    const bankSelections = new Set<string>();
-    
-    activeBanks.forEach(bank => {
-      const bankEntries = cleanData.filter(d => d.bankName === bank);
-      // Sort by percentage descending
-      bankEntries.sort((a, b) => b.percentage - a.percentage);
-      
-      const limit = bankConfigs[bank]?.limit || 5;
-      
-      // Take top N
-      bankEntries.slice(0, limit).forEach(entry => {
-        bankSelections.add(`${bank}|${entry.category.toLowerCase()}`);
-      });
-    });
-
-    // 3. Build Matrix Rows (Unique Categories)
-    // Only include categories that exist in the active banks
-    const relevantData = cleanData.filter(d => activeBanks.includes(d.bankName));
-    const allCategories = Array.from(new Set(relevantData.map(d => d.category)));
-    allCategories.sort(); 
-
-    // Create a lookup map for the grid
-    const matrixMap = new Map<string, number>();
-    cleanData.forEach(d => {
-      matrixMap.set(`${d.bankName}|${d.category}`, d.percentage);
-    });
-
-    return { 
-      matrix: allCategories.map(cat => ({
-        name: cat,
-        values: activeBanks.map(bank => {
-          const val = matrixMap.get(`${bank}|${cat}`);
-          const isSelected = bankSelections.has(`${bank}|${cat.toLowerCase()}`);
-          return { bank, percentage: val, isSelected };
-        })
-      })),
-      targetBanks: activeBanks
-    };
-  }, [data, bankConfigs]);
+  // Every edit goes through onUpdate so it lands in the undo history
+  const update = (updated: CashbackEntry[], label: string) => {
+    onUpdate(updated, label);
+    setEditing(null);
+  };
 
-  if (data.length === 0) return null;
+  const handleAddOffer = () => {
+    const percentage = parseFloat(newPercentage.replace(',', '.'));
+    if (!newBank.trim() || !newCategory.trim() || isNaN(percentage) || percentage <= 0 || percentage > 100) return;
+    onUpdate(addOffer(data, newBank, newCategory, percentage), `Добавлено: ${newBank.trim()} · ${newCategory.trim()} ${percentage}%`);
+    setNewCategory("");
+    setNewPercentage("");
+  };
 
   const copyToClipboard = () => {
     // Format for Spreadsheets
     const header = `Категория\t${targetBanks.join('\t')}`;
     const rows = matrix.map(row => {
-      const vals = row.values.map(v => v.percentage ? `${v.percentage}%` : '').join('\t');
+      const vals = row.values.map(v => v.percentage ? describeCell(v) : '').join('\t');
       return `${row.name}\t${vals}`;
     }).join('\n');
     
@@ -97,38 +72,14 @@ export const DataTable: React.FC<DataTableProps> = ({ data, onUpdate, onClear, b
   };
 
   const downloadCheatSheet = () => {
-    const lines = ["📋 ПАМЯТКА ПО КЭШБЭКУ", "====================="];
-    const date = new Date().toLocaleDateString('ru-RU', { month: 'long', year: 'numeric' });
-    lines.push(`📅 ${date}\n`);
-
-    matrix.forEach(row => {
-        // Find if there is a "Winner" (Selected AND Max among Selected)
-        const activeValues = row.values.filter(v => v.isSelected && v.percentage !== undefined);
-        const maxActivePercent = activeValues.length > 0 
-          ? Math.max(...activeValues.map(v => v.percentage!)) 
-          : -1;
-
-        // Find the bank(s) that offer this max percent and are selected
-        const winners = row.values.filter(v => v.isSelected && v.percentage === maxActivePercent);
-
-        if (winners.length > 0) {
-            const winnerText = winners.map(w => `${w.bank} (${w.percentage}%)`).join(' или ');
-            lines.push(`✅ ${row.name}: ${winnerText}`);
-        }
-    });
-
-    lines.push("\n=====================");
-    lines.push("Сгенерировано AI Cashacker");
-
-    const element = document.createElement("a");
-    const file = new Blob([lines.join('\n')], {type: 'text/plain'});
-    element.href = URL.createObjectURL(file);
-    element.download = "cashback_pamyatka.txt";
-    document.body.appendChild(element); // Required for this to work in FireFox
-    element.click();
-    document.body.removeChild(element);
+    downloadFile(buildTextCheatSheet({ month, data, bankConfigs, spendingProfile }, formatMonthKey(month)), "cashback_pamyatka.txt");
   };
 
+  const cellsWith = (test: (cell: MatrixCell) => boolean) =>
+    matrix.flatMap(row => row.values.filter(test).map(cell => ({ row, cell })));
+  const expiringSoon = cellsWith(cell => !!cell.expiresSoon);
+  const expiredCount = cellsWith(cell => cell.validity === 'expired').length;
+
   return (
     <div className="w-full space-y-4">
       
@@ -142,6 +93,8 @@ export const DataTable: React.FC<DataTableProps> = ({ data, onUpdate, onClear, b
           <p className="text-xs text-slate-400 mt-1 flex items-center gap-3">
              <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-emerald-400"></span> Лучший выбор</span>
              <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-emerald-900/50 border border-emerald-700"></span> Выбрать</span>
+             <span className="flex items-center gap-1"><Repeat className="w-3 h-3" /> Постоянная</span>
+             <span className="flex items-center gap-1"><Gift className="w-3 h-3" /> Акция</span>
           </p>
         </div>
         <div className="flex flex-wrap gap-2">
@@ -168,6 +121,22 @@ export const DataTable: React.FC<DataTableProps> = ({ data, onUpdate, onClear, b
         </div>
       </div>
 
+      {(expiringSoon.length > 0 || expiredCount > 0) && (
+        <div className="flex items-start gap-2 bg-amber-950/20 border border-amber-800/50 rounded-lg p-3 text-xs text-amber-300">
+          <Clock className="w-4 h-4 flex-shrink-0" />
+          <div className="space-y-1">
+            {expiringSoon.length > 0 && (
+              <div>
+                Скоро закончатся: {expiringSoon.map(({ row, cell }) => `${cell.bank} · ${row.name} (до ${formatDate(cell.validUntil!)})`).join(', ')}
+              </div>
+            )}
+            {expiredCount > 0 && (
+              <div className="text-amber-400/70">Истекших предложений: {expiredCount} — они показаны серым и не участвуют в подборе</div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Matrix Table */}
       <div className="overflow-hidden rounded-xl border border-slate-700 bg-slate-900 shadow-xl">
         <div className="overflow-x-auto">
@@ -180,9 +149,9 @@ export const DataTable: React.FC<DataTableProps> = ({ data, onUpdate, onClear, b
                 {targetBanks.map(bank => (
                   <th key={bank} className="px-2 py-4 text-center border-b border-slate-800 min-w-[80px]">
                     <div className="flex flex-col items-center gap-1">
-                      <span className={bankConfigs[bank].color.split(' ')[0]}>{bank}</span>
+                      <span className={configOf(bank).color.split(' ')[0]}>{bank}</span>
                       <span className="text-[10px] bg-slate-800 px-1.5 py-0.5 rounded text-slate-500">
-                        Top-{bankConfigs[bank].limit}
+                        Top-{configOf(bank).limit}
                       </span>
                     </div>
                   </th>
@@ -191,26 +160,32 @@ export const DataTable: React.FC<DataTableProps> = ({ data, onUpdate, onClear, b
             </thead>
             <tbody className="divide-y divide-slate-800">
               {matrix.map((row) => {
-                // Find the absolute max percentage among SELECTED cells for this row
-                const activeValues = row.values.filter(v => v.isSelected && v.percentage !== undefined);
-                const maxActivePercent = activeValues.length > 0 
-                  ? Math.max(...activeValues.map(v => v.percentage!)) 
-                  : -1;
-
                 return (
-                  <tr key={row.name} className="hover:bg-slate-800/30 transition-colors group">
-                    <td className="px-4 py-3 font-medium text-slate-300 border-r border-slate-800 sticky left-0 bg-slate-900 group-hover:bg-slate-800/30 transition-colors">
-                      {row.name}
+                  <tr key={row.key} className="hover:bg-slate-800/30 transition-colors group">
+                    <td
+                      onClick={() => setEditing({ rowKey: row.key })}
+                      title="Переименовать или объединить"
+                      className="px-4 py-3 font-medium text-slate-300 border-r border-slate-800 sticky left-0 bg-slate-900 group-hover:bg-slate-800/30 transition-colors cursor-pointer"
+                    >
+                      <div>{row.name}</div>
+                      <div className="text-[10px] font-normal text-slate-500">{formatRub(row.spend)}/мес</div>
                     </td>
                     {row.values.map((cell) => {
                       const hasValue = cell.percentage !== undefined;
                       const isSelected = cell.isSelected;
-                      const isWinner = isSelected && cell.percentage === maxActivePercent;
+                      const isWinner = cell.isWinner;
+                      const isEditing = editing?.rowKey === row.key && editing.bank === cell.bank;
                       
                       let cellClass = "text-slate-700"; // Default
                       
                       if (hasValue) {
-                        if (isWinner) {
+                        if (cell.validity && cell.validity !== 'active') {
+                          cellClass = "text-slate-600 line-through opacity-60";
+                        } else if (cell.isFallback) {
+                          cellClass = isWinner
+                            ? "bg-emerald-500/10 text-emerald-500 border border-dashed border-emerald-500/50"
+                            : "text-slate-500 border border-dashed border-slate-700";
+                        } else if (isWinner) {
                           cellClass = "bg-emerald-500/20 text-emerald-400 font-bold border-2 border-emerald-500/50";
                         } else if (isSelected) {
                           cellClass = "bg-emerald-900/10 text-emerald-600 font-medium";
@@ -220,12 +195,41 @@ export const DataTable: React.FC<DataTableProps> = ({ data, onUpdate, onClear, b
                       }
 
                       return (
-                        <td key={cell.bank} className="p-1 border-r border-slate-800/50 last:border-0 align-middle">
+                        <td
+                          key={cell.bank}
+                          onClick={() => setEditing({ rowKey: row.key, bank: cell.bank })}
+                          className="p-1 border-r border-slate-800/50 last:border-0 align-middle cursor-pointer"
+                        >
                           <div className={`
-                            h-10 flex items-center justify-center rounded-md transition-all mx-1
-                            ${cellClass}
+                            h-10 flex flex-col items-center justify-center rounded-md transition-all mx-1 leading-tight
+                            ${cellClass} ${isEditing ? 'ring-2 ring-cyan-500' : 'hover:ring-1 hover:ring-slate-600'}
                           `}>
-                            {hasValue ? `${cell.percentage}%` : '-'}
+                            <span
+                              title={hasValue ? [
+                                describeCell(cell),
+                                cell.isFallback ? 'базовая ставка на всё' : cell.kind && cell.kind !== 'selectable' && ENTRY_KINDS[cell.kind].label.toLowerCase(),
+                                cell.selection && SELECTION_LABELS[cell.selection],
+                                cell.validity === 'expired' && 'истекло',
+                                cell.validity === 'upcoming' && 'ещё не началось',
+                                cell.validUntil && `до ${formatDate(cell.validUntil)}`,
+                              ].filter(Boolean).join(', ') : undefined}
+                              className="flex items-center gap-0.5"
+                            >
+                              {cell.kind === 'promo' && <Gift className="w-2.5 h-2.5" />}
+                              {cell.kind === 'permanent' && <Repeat className="w-2.5 h-2.5" />}
+                              {cell.expiresSoon && <Clock className="w-2.5 h-2.5 text-amber-400" />}
+                              {cell.selection === 'forced' && <Pin className="w-2.5 h-2.5" />}
+                              {cell.selection === 'excluded' && <Ban className="w-2.5 h-2.5 text-red-400" />}
+                              {hasValue ? `${cell.percentage}%` : '-'}
+                              {hasValue && cell.currency && cell.currency !== 'rub' && (
+                                <sup className="ml-0.5 text-[9px] font-normal opacity-70">{REWARD_CURRENCIES[cell.currency].short}</sup>
+                              )}
+                            </span>
+                            {hasValue && cell.expected !== undefined && (
+                              <span className="text-[10px] font-normal opacity-70" title={cell.isCapped ? 'Упирается в лимит кэшбэка' : undefined}>
+                                {formatRub(cell.expected)}{cell.isCapped && ' ⛔'}
+                              </span>
+                            )}
                           </div>
                         </td>
                       );
@@ -237,13 +241,103 @@ export const DataTable: React.FC<DataTableProps> = ({ data, onUpdate, onClear, b
           </table>
         </div>
       </div>
+
+      {editingRow && editingCell && (
+        <MatrixCellEditor
+          key={`${editingRow.key}|${editingCell.bank}`}
+          row={editingRow}
+          cell={editingCell}
+          entries={entriesInCell(data, editingCell.bank, editingRow.key)}
+          month={month}
+          sources={sources}
+          onSetPercentage={(percentage) => update(
+            setCellPercentage(data, editingCell.bank, editingRow, percentage),
+            `${editingCell.bank} · ${editingRow.name}: ${percentage}%`
+          )}
+          onClear={() => update(
+            clearCell(data, editingCell.bank, editingRow.key),
+            `Удалено: ${editingCell.bank} · ${editingRow.name}`
+          )}
+          onSetSelection={(selection) => update(
+            setCellSelection(data, editingCell.bank, editingRow.key, selection),
+            `${editingCell.bank} · ${editingRow.name}: ${selection ? SELECTION_LABELS[selection] : 'авто'}`
+          )}
+          onSetKind={(kind) => update(
+            setCellKind(data, editingCell.bank, editingRow.key, kind),
+            `${editingCell.bank} · ${editingRow.name}: ${ENTRY_KINDS[kind].label.toLowerCase()}`
+          )}
+          onSetValidity={(validFrom, validUntil) => update(
+            setCellValidity(data, editingCell.bank, editingRow.key, validFrom, validUntil),
+            `${editingCell.bank} · ${editingRow.name}: срок действия`
+          )}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {editingRow && !editing?.bank && (
+        <MatrixRowEditor
+          key={editingRow.key}
+          row={editingRow}
+          rows={matrix}
+          onRename={(name) => update(renameRow(data, editingRow.key, name), `Категория «${editingRow.name}» → «${name}»`)}
+          onMerge={(into) => update(mergeRows(data, editingRow.key, into), `Категория «${editingRow.name}» объединена с «${into.name}»`)}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {/* Manual offer: a new bank adds a column, a new category adds a row */}
+      <div className="flex flex-wrap items-center gap-2 bg-slate-800/30 border border-slate-700 rounded-lg p-3 text-sm">
+        <span className="text-xs text-slate-400">Добавить вручную:</span>
+        <input
+          type="text"
+          list="matrix-banks"
+          value={newBank}
+          onChange={(e) => setNewBank(e.target.value)}
+          placeholder="Банк"
+          className="w-32 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-cyan-500"
+        />
+        <datalist id="matrix-banks">
+          {targetBanks.map(bank => <option key={bank} value={bank} />)}
+        </datalist>
+        <input
+          type="text"
+          list="matrix-categories"
+          value={newCategory}
+          onChange={(e) => setNewCategory(e.target.value)}
+          placeholder="Категория"
+          className="w-40 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-cyan-500"
+        />
+        <datalist id="matrix-categories">
+          {matrix.map(row => <option key={row.key} value={row.name} />)}
+        </datalist>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={newPercentage}
+          onChange={(e) => setNewPercentage(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddOffer()}
+          placeholder="%"
+          className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-cyan-500"
+        />
+        <button
+          onClick={handleAddOffer}
+          disabled={!newBank.trim() || !newCategory.trim() || !newPercentage.trim()}
+          className="px-3 py-1 text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" />
+          Добавить
+        </button>
+      </div>
       
       {/* Footer Info */}
       <div className="flex items-start gap-2 text-xs text-slate-500 px-2 mt-2">
         <Info className="w-4 h-4 mt-0.5 flex-shrink-0" />
         <p>
-          Алгоритм выбирает самые высокие проценты для каждого банка в пределах установленного лимита (Top-N). 
-          Зеленая рамка указывает на самое выгодное предложение среди выбранных категорий.
+          Алгоритм подбирает категории сразу для всех банков в пределах их лимитов (Top-N), чтобы максимизировать ожидаемый кэшбэк в рублях с учетом ваших трат
+          (~{formatRub(totalExpected)}/мес). Постоянные категории и акции работают без выбора и в лимит не входят,
+          а базовая ставка «на всё» считается запасным вариантом для любой категории (пунктирная рамка).
+          Зеленая рамка указывает, какой картой платить в категории.
+          Нажмите на ячейку, чтобы изменить процент, закрепить выбор или посмотреть исходный скриншот, на название категории — чтобы переименовать или объединить ее.
         </p>
       </div>
     </div>
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Undo2, Redo2, ListRestart } from 'lucide-react';
+import { DataHistory } from '../types';
+import { canRedo, canUndo } from '../services/dataHistory';
+
+interface EditHistoryProps {
+  history: DataHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+export const EditHistory: React.FC<EditHistoryProps> = ({ history, onUndo, onRedo, onJump }) => {
+  // Newest first
+  const steps = history.steps.map((step, index) => ({ ...step, index })).reverse();
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-6 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-lg font-medium text-slate-200 flex items-center gap-2">
+          <ListRestart className="w-5 h-5 text-sky-400" />
+          История изменений
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo(history)}
+            title="Отменить (Ctrl+Z)"
+            className="p-2 rounded-lg text-slate-300 hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo(history)}
+            title="Повторить (Ctrl+Shift+Z / Ctrl+Y)"
+            className="p-2 rounded-lg text-slate-300 hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <ol className="max-h-56 overflow-y-auto space-y-1">
+        {steps.map(step => {
+          const isCurrent = step.index === history.index;
+          const isUndone = step.index > history.index;
+          return (
+            <li key={`${step.index}-${step.timestamp}`}>
+              <button
+                onClick={() => onJump(step.index)}
+                className={`w-full flex items-center justify-between gap-3 px-3 py-1.5 rounded-lg text-left text-sm transition-colors ${
+                  isCurrent
+                    ? 'bg-sky-500/10 border border-sky-500/40 text-sky-300'
+                    : `border border-transparent hover:bg-slate-800 ${isUndone ? 'text-slate-600' : 'text-slate-300'}`
+                }`}
+              >
+                <span className="truncate">{step.label}</span>
+                <span className="text-[10px] text-slate-500 flex-shrink-0">
+                  {step.data.length} · {new Date(step.timestamp).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
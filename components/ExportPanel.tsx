@@ -0,0 +1,92 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, FileJson, FileSpreadsheet, Printer, Loader2, CalendarDays } from 'lucide-react';
+import { BankConfig, CashbackEntry, SpendingProfile } from '../types';
+import { exportCsv, exportIcs, exportJson, exportXlsx, ExportContext, printCheatSheet } from '../services/exportService';
+import { ImportMode, ImportResult, parseImportFile } from '../services/importService';
+import { formatMonthKey } from '../services/historyStore';
+
+interface ExportPanelProps {
+  month: string;
+  data: CashbackEntry[];
+  bankConfigs: Record<string, BankConfig>;
+  spendingProfile: SpendingProfile;
+  onImport: (result: ImportResult, mode: ImportMode, fileName: string) => void;
+}
+
+const buttonClass = "px-3 py-1.5 text-xs bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-200 rounded-lg flex items-center gap-1 border border-slate-700";
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ month, data, bankConfigs, spendingProfile, onImport }) => {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [isExporting, setIsExporting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const context: ExportContext = { month, data, bankConfigs, spendingProfile };
+  const isEmpty = data.length === 0;
+
+  const handleXlsx = async () => {
+    setIsExporting(true);
+    try {
+      await exportXlsx(context);
+    } catch (error) {
+      console.error("XLSX export failed", error);
+      alert("Не удалось сформировать XLSX.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (mode === 'restore' && !isEmpty && !confirm('Текущие данные месяца будут заменены. Продолжить?')) return;
+    try {
+      onImport(await parseImportFile(file), mode, file.name);
+    } catch (error) {
+      console.error("Import failed", error);
+      alert(error instanceof Error ? error.message : "Не удалось прочитать файл.");
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-4 flex flex-col sm:flex-row gap-4 sm:items-center justify-between">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-slate-400 flex items-center gap-1"><Download className="w-3 h-3" /> Экспорт:</span>
+        <button onClick={() => exportCsv(context)} disabled={isEmpty} className={buttonClass}>
+          CSV
+        </button>
+        <button onClick={handleXlsx} disabled={isEmpty || isExporting} className={buttonClass}>
+          {isExporting ? <Loader2 className="w-3 h-3 animate-spin" /> : <FileSpreadsheet className="w-3 h-3" />}
+          XLSX
+        </button>
+        <button onClick={() => exportJson(context)} disabled={isEmpty} className={buttonClass}>
+          <FileJson className="w-3 h-3" />
+          JSON
+        </button>
+        <button onClick={() => printCheatSheet(context, formatMonthKey(month))} disabled={isEmpty} className={buttonClass}>
+          <Printer className="w-3 h-3" />
+          Памятка / PDF
+        </button>
+        <button onClick={() => exportIcs(context)} disabled={isEmpty} className={buttonClass} title="Напоминания выбрать категории и окончания акций">
+          <CalendarDays className="w-3 h-3" />
+          Календарь
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as ImportMode)}
+          className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-cyan-500"
+        >
+          <option value="merge">Добавить к текущим</option>
+          <option value="restore">Заменить текущие</option>
+        </select>
+        <button onClick={() => fileInput.current?.click()} className={buttonClass}>
+          <Upload className="w-3 h-3" />
+          Импорт JSON / CSV
+        </button>
+        <input ref={fileInput} type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFile} className="hidden" />
+      </div>
+    </div>
+  );
+};
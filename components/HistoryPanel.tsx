@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { History, FolderOpen, Trash2, ArrowUp, ArrowDown, Plus, Minus } from 'lucide-react';
+import { CashbackEntry, MonthSession } from '../types';
+import { formatMonthKey, getMonthKey } from '../services/historyStore';
+import { diffMonths, OfferChange } from '../services/monthDiff';
+
+interface HistoryPanelProps {
+  currentMonth: string;
+  currentData: CashbackEntry[];
+  months: MonthSession[];
+  onOpen: (month: string) => void;
+  onDelete: (month: string) => void;
+}
+
+const CHANGE_STYLES: Record<OfferChange['kind'], { icon: React.ReactNode; className: string }> = {
+  added: { icon: <Plus className="w-3 h-3" />, className: 'text-emerald-400' },
+  removed: { icon: <Minus className="w-3 h-3" />, className: 'text-slate-500 line-through' },
+  raised: { icon: <ArrowUp className="w-3 h-3" />, className: 'text-emerald-300' },
+  lowered: { icon: <ArrowDown className="w-3 h-3" />, className: 'text-red-400' },
+};
+
+const describeChange = (change: OfferChange) => {
+  switch (change.kind) {
+    case 'added': return `${change.category}: ${change.current}% (новая)`;
+    case 'removed': return `${change.category}: было ${change.previous}%`;
+    default: return `${change.category}: ${change.previous}% → ${change.current}%`;
+  }
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ currentMonth, currentData, months, onOpen, onDelete }) => {
+  // Compare against the closest archived month before the one being viewed
+  const previous = months.find(m => m.month < currentMonth);
+  const todayMonth = getMonthKey();
+
+  const changesByBank = useMemo(() => {
+    const grouped = new Map<string, OfferChange[]>();
+    if (!previous) return grouped;
+    diffMonths(previous.entries, currentData).forEach(change => {
+      grouped.set(change.bank, [...(grouped.get(change.bank) ?? []), change]);
+    });
+    return grouped;
+  }, [previous, currentData]);
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-medium text-slate-200 flex items-center gap-2">
+          <History className="w-5 h-5 text-amber-400" />
+          История по месяцам
+        </h3>
+        {currentMonth !== todayMonth && (
+          <button
+            onClick={() => onOpen(todayMonth)}
+            className="px-3 py-1.5 text-xs bg-amber-600 hover:bg-amber-500 text-white rounded-lg"
+          >
+            Вернуться к {formatMonthKey(todayMonth)}
+          </button>
+        )}
+      </div>
+
+      {months.length === 0 ? (
+        <p className="text-sm text-slate-500">Архив пуст. Данные текущего месяца сохраняются автоматически.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {months.map(session => (
+            <div
+              key={session.month}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm ${
+                session.month === currentMonth
+                  ? 'bg-amber-500/10 border-amber-500/40 text-amber-300'
+                  : 'bg-slate-800 border-slate-700 text-slate-300'
+              }`}
+            >
+              <span className="capitalize">{formatMonthKey(session.month)}</span>
+              <span className="text-[10px] text-slate-500">{session.entries.length}</span>
+              {session.month !== currentMonth && (
+                <>
+                  <button onClick={() => onOpen(session.month)} className="text-slate-400 hover:text-amber-300" title="Открыть">
+                    <FolderOpen className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => onDelete(session.month)} className="text-slate-500 hover:text-red-400" title="Удалить">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {previous && (
+        <div className="border-t border-slate-700/50 pt-4 space-y-3">
+          <h4 className="text-sm font-medium text-slate-300">
+            Что изменилось с {formatMonthKey(previous.month)}
+          </h4>
+          {changesByBank.size === 0 ? (
+            <p className="text-xs text-slate-500">Изменений нет.</p>
+          ) : (
+            <div className="grid gap-3 sm:grid-cols-2">
+              {Array.from(changesByBank.entries()).map(([bank, changes]) => (
+                <div key={bank} className="bg-slate-900/50 border border-slate-800 rounded-lg p-3">
+                  <div className="text-sm font-medium text-slate-200 mb-2">{bank}</div>
+                  <ul className="space-y-1">
+                    {changes.map(change => (
+                      <li key={`${change.kind}|${change.category}`} className={`flex items-center gap-1.5 text-xs ${CHANGE_STYLES[change.kind].className}`}>
+                        {CHANGE_STYLES[change.kind].icon}
+                        {describeChange(change)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Users, Plus, X } from 'lucide-react';
+import { BankConfig } from '../types';
+import { cardKey, isCardRemoved } from '../services/household';
+
+interface HouseholdEditorProps {
+  members: string[];
+  banks: string[]; // Banks a card can be added for
+  bankConfigs: Record<string, BankConfig>;
+  onAddMember: (name: string) => void;
+  onRemoveMember: (name: string) => void;
+  onToggleCard: (bank: string, owner: string) => void;
+}
+
+export const HouseholdEditor: React.FC<HouseholdEditorProps> = ({ members, banks, bankConfigs, onAddMember, onRemoveMember, onToggleCard }) => {
+  const [newMember, setNewMember] = useState("");
+
+  const handleAdd = () => {
+    const name = newMember.trim().replace(/[()]/g, '');
+    if (!name || members.includes(name)) return;
+    onAddMember(name);
+    setNewMember("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-slate-300 font-medium">
+        <Users className="w-4 h-4 text-emerald-400" />
+        Семья
+        <span className="text-[10px] text-slate-500 font-normal">
+          Карты каждого человека — отдельные колонки, категории подбираются на всех сразу
+        </span>
+      </div>
+
+      {members.map(member => (
+        <div key={member} className="flex flex-wrap items-center gap-2 bg-slate-800/60 border border-slate-700 rounded-lg px-2 py-1.5">
+          <span className="text-xs text-slate-200 font-medium w-24 truncate" title={member}>{member}</span>
+          {banks.map(bank => {
+            const hasCard = !isCardRemoved(bankConfigs[cardKey(bank, member)]);
+            return (
+              <button
+                key={bank}
+                onClick={() => onToggleCard(bank, member)}
+                className={`px-2 py-0.5 text-xs rounded border ${
+                  hasCard ? 'bg-emerald-900/40 border-emerald-600 text-emerald-300' : 'bg-slate-900 border-slate-700 text-slate-500 hover:text-slate-300'
+                }`}
+              >
+                {bank}
+              </button>
+            );
+          })}
+          <button onClick={() => onRemoveMember(member)} className="ml-auto text-slate-500 hover:text-red-400" title="Убрать из семьи">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newMember}
+          onChange={(e) => setNewMember(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Имя (Аня)"
+          className="w-40 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-emerald-500"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!newMember.trim()}
+          className="px-3 py-1 text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" />
+          Добавить человека
+        </button>
+      </div>
+    </div>
+  );
+};
+
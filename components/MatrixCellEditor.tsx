@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Check, X, Trash2, Pin, Ban, RotateCcw } from 'lucide-react';
+import { CashbackEntry, EntryKind, SourceImage } from '../types';
+import { MatrixCell, MatrixRow } from '../services/matrix';
+import { ENTRY_KINDS } from '../services/entryKinds';
+import { getValidity } from '../services/validity';
+import { SourcePreview } from './SourcePreview';
+
+interface MatrixCellEditorProps {
+  row: MatrixRow;
+  cell: MatrixCell;
+  entries: CashbackEntry[]; // Raw entries behind the cell
+  month: string;
+  sources: SourceImage[];
+  onSetPercentage: (percentage: number) => void;
+  onClear: () => void;
+  onSetSelection: (selection: CashbackEntry['selection']) => void;
+  onSetKind: (kind: EntryKind) => void;
+  onSetValidity: (validFrom: string | undefined, validUntil: string | undefined) => void;
+  onClose: () => void;
+}
+
+const SELECTION_OPTIONS: { value: CashbackEntry['selection']; label: string; icon: React.ReactNode }[] = [
+  { value: undefined, label: 'Авто', icon: <RotateCcw className="w-3 h-3" /> },
+  { value: 'forced', label: 'Всегда выбирать', icon: <Pin className="w-3 h-3" /> },
+  { value: 'excluded', label: 'Не выбирать', icon: <Ban className="w-3 h-3" /> },
+];
+
+export const MatrixCellEditor: React.FC<MatrixCellEditorProps> = ({ row, cell, entries, month, sources, onSetPercentage, onClear, onSetSelection, onSetKind, onSetValidity, onClose }) => {
+  // A base-rate fallback shows the bank's "на всё" % but is not an offer of this cell
+  const hasValue = cell.percentage !== undefined && !cell.isFallback;
+  const [value, setValue] = useState(hasValue ? String(cell.percentage) : "");
+  // Dates as stored on the entry; the placeholders show the month defaults
+  const [validFrom, setValidFrom] = useState(entries[0]?.validFrom ?? "");
+  const [validUntil, setValidUntil] = useState(entries[0]?.validUntil ?? "");
+  const monthDefaults = getValidity({}, month);
+
+  // An empty field removes the offer
+  const handleSave = () => {
+    const trimmed = value.trim();
+    if (!trimmed) {
+      if (hasValue) onClear();
+      return;
+    }
+    const percentage = parseFloat(trimmed.replace(',', '.'));
+    if (!isNaN(percentage) && percentage > 0 && percentage <= 100) onSetPercentage(percentage);
+  };
+
+  return (
+    <div className="bg-slate-900 border border-cyan-700/50 rounded-xl p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="text-slate-300">
+          <b className="text-slate-100">{cell.bank}</b> · {row.name}
+        </span>
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-300">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          inputMode="decimal"
+          autoFocus
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Нет предложения"
+          className="w-24 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-cyan-500"
+        />
+        <span className="text-slate-500">%</span>
+        <button
+          onClick={handleSave}
+          className="px-3 py-1 text-xs bg-cyan-600 hover:bg-cyan-500 text-white rounded flex items-center gap-1"
+        >
+          <Check className="w-3 h-3" />
+          Сохранить
+        </button>
+        {hasValue && (
+          <button
+            onClick={onClear}
+            className="px-3 py-1 text-xs text-red-400 hover:bg-red-950/30 rounded flex items-center gap-1"
+          >
+            <Trash2 className="w-3 h-3" />
+            Удалить
+          </button>
+        )}
+      </div>
+
+      {cell.isFallback && (
+        <div className="text-xs text-slate-500">
+          Своего предложения нет — траты идут по базовой ставке {cell.percentage}% на всё
+        </div>
+      )}
+
+      {hasValue && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-slate-500">Тип:</span>
+          {(Object.keys(ENTRY_KINDS) as EntryKind[]).map(kind => (
+            <button
+              key={kind}
+              onClick={() => onSetKind(kind)}
+              className={`px-2 py-1 text-xs rounded border ${
+                cell.kind === kind
+                  ? 'bg-cyan-900/40 border-cyan-600 text-cyan-300'
+                  : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              {ENTRY_KINDS[kind].label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {hasValue && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-slate-500">Действует:</span>
+          <input
+            type="date"
+            value={validFrom || monthDefaults.from}
+            onChange={(e) => setValidFrom(e.target.value)}
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-cyan-500"
+          />
+          <span className="text-xs text-slate-500">—</span>
+          <input
+            type="date"
+            value={validUntil || monthDefaults.until}
+            onChange={(e) => setValidUntil(e.target.value)}
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-cyan-500"
+          />
+          <button
+            onClick={() => onSetValidity(
+              validFrom && validFrom !== monthDefaults.from ? validFrom : undefined,
+              validUntil && validUntil !== monthDefaults.until ? validUntil : undefined
+            )}
+            className="px-2 py-1 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 rounded"
+          >
+            Применить
+          </button>
+          {cell.validity === 'expired' && <span className="text-xs text-red-400">Истекло</span>}
+          {cell.validity === 'upcoming' && <span className="text-xs text-amber-400">Ещё не началось</span>}
+        </div>
+      )}
+
+      {hasValue && cell.kind === 'selectable' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-slate-500">Выбор категории:</span>
+          {SELECTION_OPTIONS.map(option => (
+            <button
+              key={option.label}
+              onClick={() => onSetSelection(option.value)}
+              className={`px-2 py-1 text-xs rounded flex items-center gap-1 border ${
+                cell.selection === option.value
+                  ? 'bg-cyan-900/40 border-cyan-600 text-cyan-300'
+                  : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              {option.icon}
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <div className="border-t border-slate-700/50 pt-3 space-y-3">
+          <span className="text-xs text-slate-500">Источник:</span>
+          {entries.map(entry => (
+            <SourcePreview key={entry.id} entry={entry} source={sources.find(s => s.id === entry.sourceId)} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
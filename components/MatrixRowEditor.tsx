@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Check, X, Merge } from 'lucide-react';
+import { MatrixRow } from '../services/matrix';
+
+interface MatrixRowEditorProps {
+  row: MatrixRow;
+  rows: MatrixRow[];
+  onRename: (name: string) => void;
+  onMerge: (into: MatrixRow) => void;
+  onClose: () => void;
+}
+
+export const MatrixRowEditor: React.FC<MatrixRowEditorProps> = ({ row, rows, onRename, onMerge, onClose }) => {
+  const [name, setName] = useState(row.name);
+  const [targetKey, setTargetKey] = useState("");
+  const others = rows.filter(r => r.key !== row.key);
+  const target = others.find(r => r.key === targetKey);
+
+  const handleRename = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== row.name) onRename(trimmed);
+  };
+
+  return (
+    <div className="bg-slate-900 border border-cyan-700/50 rounded-xl p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="text-slate-300">
+          Категория <b className="text-slate-100">{row.name}</b>
+        </span>
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-300">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+          className="flex-1 min-w-[160px] bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-cyan-500"
+        />
+        <button
+          onClick={handleRename}
+          disabled={!name.trim() || name.trim() === row.name}
+          className="px-3 py-1 text-xs bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded flex items-center gap-1"
+        >
+          <Check className="w-3 h-3" />
+          Переименовать
+        </button>
+      </div>
+
+      {others.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-slate-500">Объединить с</span>
+          <select
+            value={targetKey}
+            onChange={(e) => setTargetKey(e.target.value)}
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-cyan-500"
+          >
+            <option value="">Выберите категорию</option>
+            {others.map(r => (
+              <option key={r.key} value={r.key}>{r.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => target && onMerge(target)}
+            disabled={!target}
+            className="px-3 py-1 text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded flex items-center gap-1"
+          >
+            <Merge className="w-3 h-3" />
+            Объединить
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Check, X, Plus, Pencil, Trash2 } from 'lucide-react';
+import { CashbackEntry, PatchOperation } from '../types';
+
+interface PatchReviewProps {
+  instruction: string;
+  operations: PatchOperation[];
+  data: CashbackEntry[];
+  onApply: (accepted: PatchOperation[]) => void;
+  onCancel: () => void;
+}
+
+const describeEntry = (e: { bankName: string; category: string; percentage: number }) =>
+  `${e.bankName} · ${e.category} · ${e.percentage}%`;
+
+export const PatchReview: React.FC<PatchReviewProps> = ({ instruction, operations, data, onApply, onCancel }) => {
+  const [accepted, setAccepted] = useState<boolean[]>(() => operations.map(() => true));
+  const byId = new Map<string, CashbackEntry>(data.map(e => [e.id, e]));
+
+  const toggle = (idx: number) => {
+    setAccepted(prev => prev.map((v, i) => (i === idx ? !v : v)));
+  };
+
+  const renderOperation = (operation: PatchOperation) => {
+    switch (operation.op) {
+      case 'add':
+        return (
+          <span className="flex items-center gap-2 text-emerald-300">
+            <Plus className="w-4 h-4 flex-shrink-0" />
+            {describeEntry(operation.entry)}
+          </span>
+        );
+      case 'update': {
+        const target = byId.get(operation.targetId);
+        return (
+          <span className="flex items-center gap-2 text-amber-300">
+            <Pencil className="w-4 h-4 flex-shrink-0" />
+            <span className="text-slate-400">{target ? describeEntry(target) : operation.targetId}</span>
+            →
+            {target ? describeEntry({ ...target, ...operation.changes }) : JSON.stringify(operation.changes)}
+          </span>
+        );
+      }
+      case 'delete': {
+        const target = byId.get(operation.targetId);
+        return (
+          <span className="flex items-center gap-2 text-red-300">
+            <Trash2 className="w-4 h-4 flex-shrink-0" />
+            <span className="line-through">{target ? describeEntry(target) : operation.targetId}</span>
+          </span>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 border border-purple-700/50 rounded-xl p-4 space-y-3">
+      <div className="text-sm text-slate-300">
+        Предлагаемые изменения по запросу <span className="text-purple-300">«{instruction}»</span>
+      </div>
+
+      {operations.length === 0 ? (
+        <p className="text-sm text-slate-500">ИИ не предложил изменений.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {operations.map((operation, idx) => (
+            <li key={idx} className={`flex items-start gap-3 text-sm p-2 rounded-lg ${accepted[idx] ? 'bg-slate-800/60' : 'opacity-50'}`}>
+              <input
+                type="checkbox"
+                checked={accepted[idx]}
+                onChange={() => toggle(idx)}
+                className="mt-0.5 w-4 h-4 rounded border-slate-600 text-purple-500 bg-slate-700"
+              />
+              <div className="flex-1 space-y-0.5">
+                {renderOperation(operation)}
+                {operation.reason && <div className="text-xs text-slate-500">{operation.reason}</div>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm text-slate-400 hover:text-slate-200 rounded-lg flex items-center gap-1"
+        >
+          <X className="w-4 h-4" />
+          Отмена
+        </button>
+        <button
+          onClick={() => onApply(operations.filter((_, idx) => accepted[idx]))}
+          disabled={!accepted.some(Boolean)}
+          className="px-4 py-2 text-sm bg-purple-600 hover:bg-purple-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg flex items-center gap-1"
+        >
+          <Check className="w-4 h-4" />
+          Применить выбранные ({accepted.filter(Boolean).length})
+        </button>
+      </div>
+    </div>
+  );
+};
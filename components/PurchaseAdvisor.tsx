@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { Loader2, Sparkles, ShoppingBag } from 'lucide-react';
+import { BankConfig, CashbackEntry, SpendingProfile } from '../types';
+import { buildMatrix, formatRub } from '../services/matrix';
+import { formatReward } from '../services/rewards';
+import { advisePurchase, OTHER_PURCHASE_KEY, OTHER_PURCHASE_LABEL } from '../services/purchaseAdvisor';
+import { interpretPurchase } from '../services/geminiService';
+
+interface PurchaseAdvisorProps {
+  data: CashbackEntry[];
+  month: string;
+  bankConfigs: Record<string, BankConfig>;
+  spendingProfile: SpendingProfile;
+}
+
+export const PurchaseAdvisor: React.FC<PurchaseAdvisorProps> = ({ data, month, bankConfigs, spendingProfile }) => {
+  const [question, setQuestion] = useState("");
+  const [isAsking, setIsAsking] = useState(false);
+  const [categoryKey, setCategoryKey] = useState("");
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState<string | null>(null);
+
+  const cashbackMatrix = useMemo(
+    () => buildMatrix(data, bankConfigs, spendingProfile, month),
+    [data, bankConfigs, spendingProfile, month]
+  );
+  const categories = cashbackMatrix.matrix.map(row => ({ key: row.key, name: row.name }));
+
+  // The model only reads the question; the numbers below come from the matrix
+  const advice = useMemo(() => {
+    const value = parseFloat(amount.replace(/\s/g, '').replace(',', '.'));
+    if (!categoryKey || !(value > 0)) return undefined;
+    return advisePurchase(cashbackMatrix, categoryKey, value, bankConfigs);
+  }, [cashbackMatrix, categoryKey, amount, bankConfigs]);
+
+  const handleAsk = async () => {
+    if (!question.trim()) return;
+    setIsAsking(true);
+    try {
+      const result = await interpretPurchase(question, categories);
+      // A purchase outside this month's categories is still answered with the cards' base rates
+      setCategoryKey(result.categoryKey ?? OTHER_PURCHASE_KEY);
+      setAmount(result.amount ? String(Math.round(result.amount)) : "");
+      setNote(result.categoryKey
+        ? [result.merchant, result.reason].filter(Boolean).join(' — ') || null
+        : 'Покупка не попадает в категории месяца — считаем по базовым ставкам. Категорию можно выбрать вручную.');
+    } catch (error) {
+      alert("Не удалось разобрать вопрос. Попробуйте переформулировать.");
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-6 space-y-4">
+      <h3 className="text-lg font-medium text-slate-200 flex items-center gap-2">
+        <ShoppingBag className="w-5 h-5 text-purple-400" />
+        Советник по покупке
+      </h3>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAsk()}
+          placeholder="Покупаю телевизор в М.Видео за 60к, какой картой?"
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2.5 text-sm text-slate-200 focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none placeholder:text-slate-600"
+        />
+        <button
+          onClick={handleAsk}
+          disabled={isAsking || !question.trim() || categories.length === 0}
+          className="px-4 py-2 bg-purple-600 hover:bg-purple-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg text-sm font-medium flex items-center justify-center gap-2"
+        >
+          {isAsking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+          Спросить
+        </button>
+      </div>
+
+      {(categoryKey || note) && (
+        <div className="space-y-3 text-sm">
+          {note && <div className="text-xs text-purple-300/80">ИИ: {note}</div>}
+
+          {/* The model's reading can be corrected before trusting the answer */}
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <select
+              value={categoryKey}
+              onChange={(e) => setCategoryKey(e.target.value)}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-purple-500"
+            >
+              <option value="">Категория</option>
+              {categories.map(c => (
+                <option key={c.key} value={c.key}>{c.name}</option>
+              ))}
+              <option value={OTHER_PURCHASE_KEY}>{OTHER_PURCHASE_LABEL}</option>
+            </select>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="Сумма, ₽"
+              className="w-28 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-purple-500"
+            />
+          </div>
+
+          {advice && (advice.best ? (
+            <div className="p-3 rounded-lg bg-emerald-500/10 border border-emerald-500/40 text-emerald-300">
+              Платите картой <b>{advice.best.bank}</b> — {formatReward(advice.best.cell.percentage!, advice.best.cell.currency, advice.best.cell.effectivePercentage)}
+              {advice.best.isBaseRate && ' на все покупки'}, кэшбэк ≈ <b>{formatRub(advice.best.cashback)}</b>
+              {advice.best.capLeft !== undefined && (
+                <div className="text-xs text-emerald-400/70 mt-1">Остаток лимита в этом месяце: {formatRub(advice.best.capLeft)}</div>
+              )}
+            </div>
+          ) : (
+            <div className="p-3 rounded-lg bg-slate-800 border border-slate-700 text-slate-400">
+              Ни одна карта не даёт кэшбэка на эту покупку в этом месяце.
+            </div>
+          ))}
+
+          {advice && (
+            <ul className="text-xs text-slate-500 space-y-0.5">
+              {advice.reasoning.map((line, idx) => (
+                <li key={idx}>{line}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Scale, Upload, Loader2, AlertTriangle, X } from 'lucide-react';
+import { BankConfig, CashbackEntry, ReconciliationRecord, SpendingProfile, Transaction } from '../types';
+import { buildMatrix, formatRub } from '../services/matrix';
+import { parseCardKey } from '../services/household';
+import { parseStatementFile, STATEMENT_ACCEPT } from '../services/statementImport';
+import { categorizeTransactions, transactionMonth } from '../services/transactions';
+import { loadReconciliations, mergeReconciliation, plannedCashback, reconcileTransactions, saveReconciliation, yearTotals } from '../services/reconciliation';
+import { formatDate } from '../services/validity';
+
+interface ReconciliationPanelProps {
+  data: CashbackEntry[];
+  month: string;
+  bankConfigs: Record<string, BankConfig>;
+  spendingProfile: SpendingProfile;
+}
+
+const DETECT_CARD = '';
+
+const parseRub = (value: string | undefined) => {
+  const num = parseFloat((value ?? '').replace(/\s/g, '').replace(',', '.'));
+  return isNaN(num) ? undefined : num;
+};
+
+const diffClass = (diff: number) => (diff < -1 ? 'text-red-400' : diff > 1 ? 'text-emerald-400' : 'text-slate-400');
+
+export const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({ data, month, bankConfigs, spendingProfile }) => {
+  const [records] = useState<Record<string, ReconciliationRecord>>(loadReconciliations);
+  // Only an import or a typed payout saves the month; opening it never rewrites the stored record
+  const isDirty = useRef(false);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  // Statement payouts saved earlier this month, until the user clears them
+  const [keepStored, setKeepStored] = useState(true);
+  const [manual, setManual] = useState<Record<string, string>>(() =>
+    Object.fromEntries(Object.entries(records[month]?.manual ?? {}).map(([card, value]) => [card, String(value)]))
+  );
+  const [importCard, setImportCard] = useState(DETECT_CARD);
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const cashbackMatrix = useMemo(
+    () => buildMatrix(data, bankConfigs, spendingProfile, month),
+    [data, bankConfigs, spendingProfile, month]
+  );
+  const cards: string[] = cashbackMatrix.targetBanks;
+  const { lines, discrepancies } = useMemo(() => reconcileTransactions(cashbackMatrix, transactions), [cashbackMatrix, transactions]);
+  const planned = useMemo(() => plannedCashback(cashbackMatrix), [cashbackMatrix]);
+  const unassigned = transactions.filter(tx => !tx.bank).length;
+
+  // 1. Expected: purchases at the selected rates, or the matrix plan for cards without imported purchases
+  // 2. Received: typed in by hand, or summed from the statement's per-purchase cashback
+  const record: ReconciliationRecord = useMemo(() => {
+    const expected: Record<string, number> = {};
+    const actual: Record<string, number> = {};
+    const manualRub: Record<string, number> = {};
+    const statement: string[] = [];
+    cards.forEach(card => {
+      const cardLines = lines.filter(l => l.card === card);
+      expected[card] = cardLines.length > 0 ? cardLines.reduce((sum, l) => sum + l.expected, 0) : planned[card] ?? 0;
+      const fromStatement = cardLines.some(l => l.actual !== undefined)
+        ? cardLines.reduce((sum, l) => sum + (l.actual ?? 0), 0)
+        : undefined;
+      const typed = parseRub(manual[card]);
+      if (typed !== undefined) manualRub[card] = typed;
+      const received = typed ?? fromStatement;
+      if (received !== undefined) actual[card] = received;
+      if (typed === undefined && fromStatement !== undefined) statement.push(card);
+    });
+    const next = { expected, actual, manual: manualRub, statement };
+    return keepStored ? mergeReconciliation(records[month], next) : next;
+  }, [cards, lines, planned, manual, keepStored]);
+  const storedStatement = keepStored ? records[month]?.statement?.length ?? 0 : 0;
+
+  const handleClearStatement = () => {
+    isDirty.current = true;
+    setTransactions([]);
+    setKeepStored(false);
+  };
+
+  useEffect(() => {
+    if (!isDirty.current) return;
+    saveReconciliation(month, record);
+  }, [record]);
+
+  const totals = yearTotals({ ...records, [month]: record }, month);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIsLoading(true);
+    try {
+      const parsed = (await Promise.all(files.map(parseStatementFile))).flat().filter(tx => transactionMonth(tx) === month);
+      if (parsed.length === 0) throw new Error("В файле нет покупок за этот месяц");
+      // Statements name the bank; with a household the card has to be picked
+      const withCards = parsed.map(tx => ({
+        ...tx,
+        bank: importCard || cards.find(card => card === tx.bank) || cards.find(card => parseCardKey(card).bank === tx.bank),
+      }));
+      isDirty.current = true;
+      setTransactions(prev => [...prev, ...categorizeTransactions(withCards)]);
+    } catch (error) {
+      console.error("Reconciliation import failed", error);
+      alert(error instanceof Error ? error.message : "Не удалось прочитать выписку.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-6 space-y-4">
+      <h3 className="text-lg font-medium text-slate-200 flex items-center gap-2">
+        <Scale className="w-5 h-5 text-amber-400" />
+        Сверка кэшбэка
+        <span className="text-xs text-slate-500 font-normal">сколько банки начислили на самом деле</span>
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input ref={fileInput} type="file" accept={STATEMENT_ACCEPT} multiple className="hidden" onChange={handleFiles} />
+        <select
+          value={importCard}
+          onChange={(e) => setImportCard(e.target.value)}
+          className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-amber-500"
+        >
+          <option value={DETECT_CARD}>Карта из выписки</option>
+          {cards.map(card => <option key={card} value={card}>{card}</option>)}
+        </select>
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={isLoading || cards.length === 0}
+          className="px-3 py-1.5 text-xs bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-200 rounded-lg flex items-center gap-1 border border-slate-700"
+        >
+          {isLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+          Загрузить операции месяца
+        </button>
+        {(transactions.length > 0 || storedStatement > 0) && (
+          <button onClick={handleClearStatement} className="text-xs text-slate-500 hover:text-red-400 flex items-center gap-1">
+            <X className="w-3 h-3" /> {transactions.length > 0 ? `Убрать операции (${transactions.length})` : 'Убрать данные выписки'}
+          </button>
+        )}
+        {unassigned > 0 && (
+          <span className="text-xs text-amber-400">Без карты: {unassigned} — выберите карту и загрузите снова</span>
+        )}
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-slate-500 text-left">
+            <th className="font-normal py-1">Карта</th>
+            <th className="font-normal py-1 text-right">Ожидалось</th>
+            <th className="font-normal py-1 text-right">Получено, ₽</th>
+            <th className="font-normal py-1 text-right">Разница</th>
+          </tr>
+        </thead>
+        <tbody>
+          {cards.map(card => {
+            const expected = record.expected[card] ?? 0;
+            const actual = record.actual[card];
+            const fromPurchases = lines.some(l => l.card === card);
+            return (
+              <tr key={card} className="border-t border-slate-800">
+                <td className="py-1.5 text-slate-300">{card}</td>
+                <td className="py-1.5 text-right text-slate-300">
+                  {formatRub(expected)}
+                  <span className="text-slate-600"> {fromPurchases ? 'по покупкам' : 'по плану'}</span>
+                </td>
+                <td className="py-1.5 text-right">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={manual[card] ?? ''}
+                    onChange={(e) => {
+                      isDirty.current = true;
+                      setManual({ ...manual, [card]: e.target.value });
+                    }}
+                    placeholder={actual !== undefined ? String(Math.round(actual)) : '—'}
+                    className="w-20 bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-right text-slate-200 focus:outline-none focus:border-amber-500"
+                  />
+                </td>
+                <td className={`py-1.5 text-right ${actual !== undefined ? diffClass(actual - expected) : 'text-slate-600'}`}>
+                  {actual !== undefined ? formatRub(actual - expected) : '—'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {lines.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs text-slate-400">По категориям</div>
+          {lines.map(line => (
+            <div key={`${line.card}|${line.categoryId ?? ''}`} className="flex items-center gap-2 text-xs bg-slate-900/50 rounded px-2 py-1">
+              <span className="w-32 truncate text-slate-400" title={line.card}>{line.card}</span>
+              <span className="flex-1 truncate text-slate-300">
+                {line.category}
+                {line.rate !== undefined && <span className="text-slate-500"> · {Math.round(line.rate * 10) / 10}%{line.isBaseRate && ' базовый'}</span>}
+              </span>
+              <span className="text-slate-500">{line.count} × · {formatRub(line.spend)}</span>
+              <span className="w-20 text-right text-slate-300">{formatRub(line.expected)}</span>
+              <span className={`w-20 text-right ${line.actual !== undefined ? diffClass(line.actual - line.expected) : 'text-slate-600'}`}>
+                {line.actual !== undefined ? formatRub(line.actual) : '—'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {discrepancies.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs text-amber-400 flex items-center gap-1">
+            <AlertTriangle className="w-3 h-3" />
+            Начислено меньше ожидаемого: {discrepancies.length}
+          </div>
+          {discrepancies.map(d => (
+            <div key={d.transaction.id} className="text-xs bg-amber-950/20 border border-amber-900/40 rounded px-2 py-1 text-slate-300">
+              {formatDate(d.transaction.date)} · {d.transaction.description || 'Без описания'} · {formatRub(d.transaction.amount)} —
+              получено {d.actualRate}% ({formatRub(d.actual)}) вместо {Math.round(d.expectedRate * 10) / 10}% ({formatRub(d.expected)})
+              <div className="text-amber-400/80">{d.reason}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {totals.months > 0 && (
+        <div className="text-xs text-slate-400 border-t border-slate-700/50 pt-3">
+          С начала года ({totals.months} мес.): ожидалось {formatRub(totals.expected)}, получено {formatRub(totals.actual)}
+          <span className={diffClass(totals.actual - totals.expected)}> ({formatRub(totals.actual - totals.expected)})</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Check, X, ShieldQuestion } from 'lucide-react';
+import { CashbackEntry, EditableEntryFields, ReviewItem, SourceImage } from '../types';
+import { applyCanonicalCategory } from '../services/categoryCatalog';
+import { validateEntry } from '../services/entryValidation';
+import { SourcePreview } from './SourcePreview';
+
+interface ReviewQueueProps {
+  items: ReviewItem[];
+  knownBanks: string[];
+  sources: SourceImage[];
+  onAccept: (entryId: string, entry: CashbackEntry) => void;
+  onReject: (entryId: string) => void;
+}
+
+// The user's fixes are applied on top of the parsed entry; a new category label is mapped again
+const applyDraft = (entry: CashbackEntry, draft?: Partial<EditableEntryFields>): CashbackEntry => {
+  if (!draft) return entry;
+  const updated = { ...entry, ...draft };
+  return draft.category !== undefined && draft.category !== entry.category
+    ? applyCanonicalCategory({ ...updated, rawCategory: undefined })
+    : updated;
+};
+
+export const ReviewQueue: React.FC<ReviewQueueProps> = ({ items, knownBanks, sources, onAccept, onReject }) => {
+  const [drafts, setDrafts] = useState<Record<string, Partial<EditableEntryFields>>>({});
+
+  if (items.length === 0) return null;
+
+  const setField = (id: string, changes: Partial<EditableEntryFields>) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const finish = (id: string) => {
+    setDrafts(prev => {
+      const { [id]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  return (
+    <div className="bg-slate-900 border border-amber-700/50 rounded-xl p-4 space-y-3">
+      <div className="flex items-center gap-2 text-sm text-amber-300">
+        <ShieldQuestion className="w-5 h-5" />
+        Требуют проверки ({items.length})
+        <span className="text-xs text-slate-500">— эти предложения не попадут в матрицу, пока вы их не подтвердите</span>
+      </div>
+
+      <datalist id="review-banks">
+        {knownBanks.map(bank => <option key={bank} value={bank} />)}
+      </datalist>
+
+      <ul className="space-y-2">
+        {items.map(({ entry, issues }) => {
+          const draft = drafts[entry.id];
+          const edited = applyDraft(entry, draft);
+          // Issues are re-checked live so the user sees when a fix resolves them
+          const validation = validateEntry(edited, knownBanks);
+          const shownIssues = draft ? validation.issues : issues;
+
+          return (
+            <li key={entry.id} className="bg-slate-800/60 rounded-lg p-3 space-y-2 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  list="review-banks"
+                  value={edited.bankName}
+                  onChange={(e) => setField(entry.id, { bankName: e.target.value })}
+                  placeholder="Банк"
+                  className="w-28 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-amber-500"
+                />
+                <input
+                  type="text"
+                  value={draft?.category ?? entry.category}
+                  onChange={(e) => setField(entry.id, { category: e.target.value })}
+                  placeholder="Категория"
+                  className="flex-1 min-w-[140px] bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-amber-500"
+                />
+                <input
+                  type="number"
+                  step="0.1"
+                  value={isNaN(edited.percentage) ? '' : edited.percentage}
+                  onChange={(e) => setField(entry.id, { percentage: parseFloat(e.target.value) })}
+                  placeholder="%"
+                  className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-amber-500"
+                />
+                {entry.confidence !== undefined && (
+                  <span className="text-[10px] bg-slate-900 px-1.5 py-0.5 rounded text-slate-400" title="Уверенность распознавания">
+                    {Math.round(entry.confidence * 100)}%
+                  </span>
+                )}
+                <button
+                  onClick={() => { onAccept(entry.id, { ...edited, confidence: 1 }); finish(entry.id); }}
+                  disabled={!validation.isValid}
+                  className="px-2 py-1 text-xs bg-emerald-700 hover:bg-emerald-600 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded flex items-center gap-1"
+                >
+                  <Check className="w-3 h-3" />
+                  Принять
+                </button>
+                <button
+                  onClick={() => { onReject(entry.id); finish(entry.id); }}
+                  className="px-2 py-1 text-xs text-red-400 hover:bg-red-950/30 rounded flex items-center gap-1"
+                >
+                  <X className="w-3 h-3" />
+                  Отклонить
+                </button>
+              </div>
+
+              {shownIssues.length > 0 && (
+                <ul className="text-xs text-amber-400/80 space-y-0.5">
+                  {shownIssues.map(issue => (
+                    <li key={issue} className="flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                      {issue}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {(entry.sourceId || entry.originalText) && (
+                <details className="text-xs">
+                  <summary className="cursor-pointer text-slate-500 hover:text-slate-300">Источник</summary>
+                  <div className="mt-2">
+                    <SourcePreview entry={entry} source={sources.find(s => s.id === entry.sourceId)} />
+                  </div>
+                </details>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
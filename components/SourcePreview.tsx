@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { Image as ImageIcon } from 'lucide-react';
+import { CashbackEntry, SourceImage } from '../types';
+
+interface SourcePreviewProps {
+  entry: CashbackEntry;
+  source?: SourceImage;
+}
+
+// Shows the screenshot an entry came from with the region it was read from highlighted
+export const SourcePreview: React.FC<SourcePreviewProps> = ({ entry, source }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!source) return;
+    const objectUrl = URL.createObjectURL(source.blob);
+    setUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [source]);
+
+  const region = entry.sourceRegion;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+        <ImageIcon className="w-3 h-3" />
+        {source ? source.name : 'Без скриншота'}
+        <span className="text-slate-500">·</span>
+        <span className="font-mono text-slate-300">{entry.originalText || '—'}</span>
+      </div>
+      {url && (
+        <div className="relative inline-block max-w-full">
+          <img src={url} alt={source?.name} className="block max-h-[480px] max-w-full rounded-lg border border-slate-700" />
+          {region && (
+            <div
+              className="absolute border-2 border-amber-400 bg-amber-400/20 rounded-sm pointer-events-none"
+              style={{
+                left: `${region.x * 100}%`,
+                top: `${region.y * 100}%`,
+                width: `${region.width * 100}%`,
+                height: `${region.height * 100}%`,
+              }}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
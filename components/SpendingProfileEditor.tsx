@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Wallet, Plus, X } from 'lucide-react';
+import { SpendingProfile } from '../types';
+import { DEFAULT_CATEGORY_SPEND } from '../services/optimizer';
+import { setSpend } from '../services/spendingProfile';
+
+interface SpendingProfileEditorProps {
+  profile: SpendingProfile;
+  categories: string[];
+  onChange: (profile: SpendingProfile) => void;
+}
+
+export const SpendingProfileEditor: React.FC<SpendingProfileEditorProps> = ({ profile, categories, onChange }) => {
+  const [newCategory, setNewCategory] = useState("");
+
+  // Categories from the data plus anything the user has already budgeted
+  const rows = Array.from(new Set([...Object.keys(profile), ...categories]))
+    .filter((cat, idx, all) => all.findIndex(c => c.toLowerCase() === cat.toLowerCase()) === idx)
+    .sort((a, b) => a.localeCompare(b, 'ru'));
+
+  const findAmount = (cat: string) => {
+    const key = Object.keys(profile).find(k => k.toLowerCase() === cat.toLowerCase());
+    return key !== undefined ? profile[key] : undefined;
+  };
+
+  const handleAmountChange = (cat: string, value: string) => {
+    if (value.trim() === "") {
+      onChange(setSpend(profile, cat, undefined));
+      return;
+    }
+    const num = parseInt(value);
+    if (!isNaN(num) && num >= 0) {
+      onChange(setSpend(profile, cat, num));
+    }
+  };
+
+  const handleAddCategory = () => {
+    if (!newCategory.trim()) return;
+    onChange(setSpend(profile, newCategory, findAmount(newCategory) ?? 0));
+    setNewCategory("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-slate-300 font-medium">
+        <Wallet className="w-4 h-4 text-emerald-400" />
+        Траты в месяц по категориям
+        <span className="text-[10px] text-slate-500 font-normal">
+          Пустое поле = {DEFAULT_CATEGORY_SPEND.toLocaleString('ru-RU')} ₽
+        </span>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+          {rows.map(cat => {
+            const amount = findAmount(cat);
+            return (
+              <div key={cat} className="flex items-center gap-2 bg-slate-800/60 border border-slate-700 rounded-lg px-2 py-1.5">
+                <span className="flex-1 text-xs text-slate-300 truncate" title={cat}>{cat}</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="500"
+                  value={amount ?? ''}
+                  placeholder={String(DEFAULT_CATEGORY_SPEND)}
+                  onChange={(e) => handleAmountChange(cat, e.target.value)}
+                  className="w-20 bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-right text-xs text-emerald-400 focus:outline-none focus:border-emerald-500"
+                />
+                <span className="text-[10px] text-slate-500">₽</span>
+                {amount !== undefined && (
+                  <button
+                    onClick={() => onChange(setSpend(profile, cat, undefined))}
+                    className="text-slate-600 hover:text-red-400"
+                    title="Сбросить"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newCategory}
+          onChange={(e) => setNewCategory(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddCategory()}
+          placeholder="Новая категория, например 'Продукты'"
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-emerald-500 placeholder:text-slate-600"
+        />
+        <button
+          onClick={handleAddCategory}
+          disabled={!newCategory.trim()}
+          className="px-3 py-1.5 text-xs bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-200 rounded-lg flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" />
+          Добавить
+        </button>
+      </div>
+    </div>
+  );
+};
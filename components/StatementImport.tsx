@@ -0,0 +1,163 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FileSpreadsheet, Loader2, Upload, Check } from 'lucide-react';
+import { MerchantDefinition, SpendingProfile, Transaction } from '../types';
+import { CATEGORY_CATALOG } from '../services/categoryCatalog';
+import { parseStatementFile, STATEMENT_ACCEPT } from '../services/statementImport';
+import { averageMonthlySpend, categorizeTransactions, findUnmappedPayees, statementMonths } from '../services/transactions';
+import { setSpend } from '../services/spendingProfile';
+import { formatRub } from '../services/matrix';
+import { formatMonthKey } from '../services/historyStore';
+
+interface StatementImportProps {
+  profile: SpendingProfile;
+  onChange: (profile: SpendingProfile) => void;
+  customMerchants: MerchantDefinition[];
+  onSaveMerchant: (merchant: MerchantDefinition) => void;
+}
+
+// How many unmapped merchants are listed for fixing
+const UNMAPPED_SHOWN = 15;
+
+export const StatementImport: React.FC<StatementImportProps> = ({ profile, onChange, customMerchants, onSaveMerchant }) => {
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [period, setPeriod] = useState<{ from: string; to: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [applied, setApplied] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const categorized = useMemo(() => categorizeTransactions(transactions, customMerchants), [transactions, customMerchants]);
+  const months = useMemo(() => statementMonths(transactions), [transactions]);
+  const averages: SpendingProfile = useMemo(
+    () => (period ? averageMonthlySpend(categorized, period.from, period.to) : {}),
+    [categorized, period]
+  );
+  const unmapped = useMemo(() => findUnmappedPayees(categorized), [categorized]);
+  const unmappedTotal = unmapped.reduce((sum, payee) => sum + payee.total, 0);
+  const banks = Array.from(new Set(transactions.map(tx => tx.bank).filter(Boolean)));
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIsLoading(true);
+    try {
+      const parsed = (await Promise.all(files.map(parseStatementFile))).flat();
+      if (parsed.length === 0) throw new Error("В выписке не найдено покупок");
+      const found = statementMonths(parsed);
+      setTransactions(parsed);
+      // The last month is usually partial, so the default period stops before it when there is more history
+      setPeriod({ from: found[0], to: found.length > 1 ? found[found.length - 2] : found[0] });
+      setApplied(false);
+    } catch (error) {
+      console.error("Statement import failed", error);
+      alert(error instanceof Error ? error.message : "Не удалось прочитать выписку.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // A fix is remembered as the user's own merchant, so the next statement maps it too
+  const handleAssign = (description: string, mcc: string | undefined, categoryId: string) => {
+    if (!categoryId) return;
+    onSaveMerchant({ name: description, aliases: [], mcc, categoryId });
+    setApplied(false);
+  };
+
+  const handleApply = () => {
+    onChange(Object.entries(averages).reduce((next, [category, amount]) => setSpend(next, category, amount), profile));
+    setApplied(true);
+  };
+
+  const sortedAverages = Object.entries(averages).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-slate-300 font-medium">
+        <FileSpreadsheet className="w-4 h-4 text-emerald-400" />
+        Траты из выписки
+        <span className="text-[10px] text-slate-500 font-normal">
+          CSV, XLSX или OFX из Сбера, Т-Банка, Альфы — средние траты по категориям за период
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input ref={fileInput} type="file" accept={STATEMENT_ACCEPT} multiple className="hidden" onChange={handleFiles} />
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={isLoading}
+          className="px-3 py-1.5 text-xs bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-200 rounded-lg flex items-center gap-1 border border-slate-700"
+        >
+          {isLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+          Загрузить выписку
+        </button>
+        {transactions.length > 0 && period && (
+          <>
+            <span className="text-xs text-slate-500">
+              Покупок: {transactions.length}{banks.length > 0 && ` · ${banks.join(', ')}`} · период
+            </span>
+            <select
+              value={period.from}
+              onChange={(e) => setPeriod({ from: e.target.value, to: e.target.value > period.to ? e.target.value : period.to })}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-emerald-500"
+            >
+              {months.map(m => <option key={m} value={m}>{formatMonthKey(m)}</option>)}
+            </select>
+            <span className="text-xs text-slate-500">—</span>
+            <select
+              value={period.to}
+              onChange={(e) => setPeriod({ from: e.target.value < period.from ? e.target.value : period.from, to: e.target.value })}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-emerald-500"
+            >
+              {months.map(m => <option key={m} value={m}>{formatMonthKey(m)}</option>)}
+            </select>
+          </>
+        )}
+      </div>
+
+      {sortedAverages.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {sortedAverages.map(([category, amount]) => (
+              <span key={category} className="text-xs bg-slate-800/60 border border-slate-700 rounded px-2 py-1 text-slate-300">
+                {category}: <span className="text-emerald-400">{formatRub(amount)}</span>/мес
+              </span>
+            ))}
+          </div>
+          <button
+            onClick={handleApply}
+            className="px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg flex items-center gap-1"
+          >
+            <Check className="w-3 h-3" />
+            {applied ? 'Траты обновлены' : 'Заполнить траты по категориям'}
+          </button>
+        </div>
+      )}
+
+      {unmapped.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs text-amber-400">
+            Без категории: {unmapped.reduce((sum, payee) => sum + payee.count, 0)} операций на {formatRub(unmappedTotal)} — не учтены в средних
+          </div>
+          {unmapped.slice(0, UNMAPPED_SHOWN).map(payee => (
+            <div key={`${payee.description}|${payee.mcc ?? ''}`} className="flex items-center gap-2 text-xs bg-slate-800/60 border border-slate-700 rounded px-2 py-1">
+              <span className="flex-1 truncate text-slate-300" title={payee.description}>{payee.description || 'Без описания'}</span>
+              {payee.mcc && <span className="text-slate-500">MCC {payee.mcc}</span>}
+              <span className="text-slate-500">{payee.count} × · {formatRub(payee.total)}</span>
+              <select
+                value=""
+                disabled={!payee.description}
+                onChange={(e) => handleAssign(payee.description, payee.mcc, e.target.value)}
+                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-200 focus:outline-none focus:border-emerald-500"
+              >
+                <option value="">Категория…</option>
+                {CATEGORY_CATALOG.map(c => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
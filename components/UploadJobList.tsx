@@ -0,0 +1,101 @@
+import React from 'react';
+import { Loader2, Check, AlertTriangle, Clock, RotateCw, X, Ban, Copy } from 'lucide-react';
+import { UploadJob, UploadJobStatus } from '../types';
+import { isActiveJob } from '../services/uploadQueue';
+
+interface UploadJobListProps {
+  jobs: UploadJob[];
+  onCancel: (jobId: string) => void;
+  onRetry: (jobId: string) => void;
+  onCancelAll: () => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<UploadJobStatus, string> = {
+  queued: 'В очереди',
+  running: 'Обработка',
+  done: 'Готово',
+  failed: 'Ошибка',
+  cancelled: 'Отменено',
+  skipped: 'Пропущено',
+};
+
+const STATUS_ICONS: Record<UploadJobStatus, React.ReactNode> = {
+  queued: <Clock className="w-3.5 h-3.5 text-slate-500" />,
+  running: <Loader2 className="w-3.5 h-3.5 text-emerald-500 animate-spin" />,
+  done: <Check className="w-3.5 h-3.5 text-emerald-400" />,
+  failed: <AlertTriangle className="w-3.5 h-3.5 text-red-400" />,
+  cancelled: <Ban className="w-3.5 h-3.5 text-slate-500" />,
+  skipped: <Copy className="w-3.5 h-3.5 text-amber-400" />,
+};
+
+export const UploadJobList: React.FC<UploadJobListProps> = ({ jobs, onCancel, onRetry, onCancelAll, onClearFinished }) => {
+  if (jobs.length === 0) return null;
+
+  const finished = jobs.filter(job => job.status === 'done' || job.status === 'failed' || job.status === 'skipped').length;
+  const counted = jobs.filter(job => job.status !== 'cancelled').length;
+  const hasActive = jobs.some(isActiveJob);
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-4 border border-slate-700 space-y-3">
+      <div className="flex items-center gap-4">
+        <div className="flex-1">
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-slate-200">
+              {hasActive ? 'Анализ изображений...' : 'Обработка завершена'}
+            </span>
+            <span className="text-emerald-400">{finished} / {counted}</span>
+          </div>
+          <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-emerald-500 transition-all duration-300 ease-out"
+              style={{ width: `${counted > 0 ? (finished / counted) * 100 : 100}%` }}
+            />
+          </div>
+        </div>
+        {hasActive ? (
+          <button onClick={onCancelAll} className="px-3 py-1 text-xs text-red-400 hover:bg-red-950/30 rounded border border-red-900/50">
+            Отменить все
+          </button>
+        ) : (
+          <button onClick={onClearFinished} className="px-3 py-1 text-xs text-slate-400 hover:text-slate-200 rounded border border-slate-700">
+            Скрыть
+          </button>
+        )}
+      </div>
+
+      <ul className="space-y-1 max-h-60 overflow-y-auto">
+        {jobs.map(job => (
+          <li key={job.id} className="flex items-center gap-2 text-xs bg-slate-900/50 rounded px-2 py-1.5">
+            {STATUS_ICONS[job.status]}
+            <span className="flex-1 truncate text-slate-300" title={job.file.name}>
+              {job.file.name}
+              {job.owner && <span className="text-slate-500"> · {job.owner}</span>}
+            </span>
+            <span className={job.status === 'failed' ? 'text-red-400 truncate max-w-[50%]' : 'text-slate-500 truncate max-w-[50%]'} title={job.error}>
+              {job.error ?? STATUS_LABELS[job.status]}
+              {job.status === 'done' && job.found !== undefined && ` · предложений: ${job.found}`}
+              {job.cached && ' · из кэша'}
+              {job.duplicates && ` · повторов пропущено: ${job.duplicates}`}
+              {job.lookalikes && <span className="text-amber-400"> · похож на {job.lookalikes.join(', ')}</span>}
+            </span>
+            {isActiveJob(job) && (
+              <button onClick={() => onCancel(job.id)} className="text-slate-500 hover:text-red-400" title="Отменить">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+            {(job.status === 'failed' || job.status === 'cancelled' || job.status === 'skipped') && (
+              <button
+                onClick={() => onRetry(job.id)}
+                className="text-slate-500 hover:text-emerald-400"
+                title={job.status === 'skipped' ? 'Всё равно распознать' : 'Повторить'}
+              >
+                <RotateCw className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
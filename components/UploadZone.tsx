@@ -1,5 +1,6 @@
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Upload, FileImage } from 'lucide-react';
+import { isSupportedInput, SUPPORTED_INPUT_ACCEPT } from '../services/inputDecoders';
 
 interface UploadZoneProps {
   onFilesSelected: (files: File[]) => void;
@@ -8,8 +9,36 @@ interface UploadZoneProps {
 
 export const UploadZone: React.FC<UploadZoneProps> = ({ onFilesSelected, disabled }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [rejected, setRejected] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Unsupported files are named instead of vanishing silently
+  const acceptFiles = (files: File[]) => {
+    setRejected(files.filter(file => !isSupportedInput(file)).map(file => file.name));
+    const supported = files.filter(isSupportedInput);
+    if (supported.length > 0) onFilesSelected(supported);
+  };
+
+  // Ctrl+V anywhere on the page uploads a copied screenshot; text pasted into fields is left alone
+  const acceptFilesRef = useRef(acceptFiles);
+  acceptFilesRef.current = acceptFiles;
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (disabled || !e.clipboardData) return;
+      const time = new Date().toLocaleTimeString('ru-RU').replace(/:/g, '-');
+      const files = Array.from(e.clipboardData.files).map((file, idx) => {
+        // Clipboard images all arrive as "image.png"
+        const extension = file.name.split('.').pop() || 'png';
+        return new File([file], `Вставка ${time}${idx > 0 ? ` (${idx + 1})` : ''}.${extension}`, { type: file.type });
+      });
+      if (files.length === 0) return;
+      e.preventDefault();
+      acceptFilesRef.current(files);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [disabled]);
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     if (!disabled) setIsDragging(true);
@@ -25,8 +54,7 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFilesSelected, disable
     if (disabled) return;
 
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const files = Array.from(e.dataTransfer.files).filter((file: File) => file.type.startsWith('image/'));
-      onFilesSelected(files);
+      acceptFiles(Array.from(e.dataTransfer.files));
     }
   };
 
@@ -38,9 +66,10 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFilesSelected, disable
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const files = Array.from(e.target.files).filter((file: File) => file.type.startsWith('image/'));
-      onFilesSelected(files);
+      acceptFiles(Array.from(e.target.files));
     }
+    // The same file can be picked again after a cancel
+    e.target.value = '';
   };
 
   return (
@@ -62,7 +91,7 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFilesSelected, disable
         ref={fileInputRef}
         onChange={handleFileInputChange}
         className="hidden"
-        accept="image/*"
+        accept={SUPPORTED_INPUT_ACCEPT}
         multiple
       />
       
@@ -79,8 +108,16 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFilesSelected, disable
             {isDragging ? 'Отпустите файлы здесь' : 'Загрузите скриншоты'}
           </p>
           <p className="text-sm text-slate-400">
-            Перетащите файлы или кликните для выбора (PNG, JPG)
+            Перетащите файлы или кликните для выбора (PNG, JPG, HEIC, PDF)
           </p>
+          <p className="text-xs text-slate-500">
+            Скриншот из буфера — Ctrl+V; длинные скриншоты прокрутки делятся на части автоматически
+          </p>
+          {rejected.length > 0 && (
+            <p className="text-xs text-amber-400" title={rejected.join(', ')}>
+              Не поддерживается: {rejected.join(', ')}
+            </p>
+          )}
         </div>
       </div>
     </div>
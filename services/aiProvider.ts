@@ -0,0 +1,72 @@
+import { AiProviderId, AiSettings } from "../types";
+import { geminiProvider } from "./providers/geminiProvider";
+import { DEFAULT_OPENAI_BASE_URL, openAiCompatibleProvider } from "./providers/openAiCompatibleProvider";
+import { mockProvider } from "./providers/mockProvider";
+
+const SETTINGS_KEY = 'cashback.aiSettings';
+
+// Provider-neutral subset of JSON Schema used for structured responses
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  description?: string;
+}
+
+// Which call is being made; lets the mock provider answer deterministically
+export type AiTask = 'screenshot' | 'context' | 'refine' | 'merchant' | 'purchase';
+
+export interface AiRequest {
+  task: AiTask;
+  prompt: string;
+  image?: { mimeType: string; data: string }; // base64 without the data: prefix
+  schema: JsonSchema;
+  input?: unknown; // Structured input the prompt was built from (used by the mock)
+  signal?: AbortSignal; // Cancels the request
+}
+
+export interface AiProvider {
+  id: AiProviderId;
+  label: string;
+  defaultModel: string;
+  // Returns the parsed JSON the model produced
+  generateJson: (request: AiRequest, settings: AiSettings) => Promise<unknown>;
+}
+
+export const AI_PROVIDERS: Record<AiProviderId, AiProvider> = {
+  gemini: geminiProvider,
+  openai: openAiCompatibleProvider,
+  mock: mockProvider,
+};
+
+export { DEFAULT_OPENAI_BASE_URL };
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  model: geminiProvider.defaultModel,
+};
+
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    const provider = typeof parsed.provider === 'string' && Object.hasOwn(AI_PROVIDERS, parsed.provider) ? parsed.provider : DEFAULT_AI_SETTINGS.provider;
+    return { ...DEFAULT_AI_SETTINGS, ...parsed, provider };
+  } catch (error) {
+    console.error("Failed to load AI settings:", error);
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save AI settings:", error);
+  }
+};
+
+export const generateJson = async (request: AiRequest, settings: AiSettings = loadAiSettings()): Promise<unknown> => {
+  const provider = AI_PROVIDERS[settings.provider] ?? AI_PROVIDERS[DEFAULT_AI_SETTINGS.provider];
+  return provider.generateJson(request, { ...settings, model: settings.model || provider.defaultModel });
+};
@@ -0,0 +1,184 @@
+import { BankConfig, BankDefinition } from "../types";
+import { normalizeCategoryLabel } from "./categoryCatalog";
+
+const CUSTOM_BANKS_KEY = 'cashback.customBanks';
+
+// Banks the app ships with. Normalization, OCR and AI prompts are all generated from the registry.
+export const BANK_REGISTRY: BankDefinition[] = [
+  {
+    name: 'Sber',
+    aliases: ['Сбер', 'Сбербанк', 'СберБанк', 'Sberbank', 'SberBank'],
+    keywords: ['спасибо', 'сберпрайм'],
+    hints: 'Green UI, SberPrime, СберСпасибо',
+    color: 'text-green-400 border-green-500/30',
+    limit: 5,
+    currency: 'spasibo',
+  },
+  {
+    name: 'T-Bank',
+    aliases: ['Т-Банк', 'Т Банк', 'Тинькофф', 'Tinkoff', 'TBank'],
+    hints: 'Yellow/Black UI, Tinkoff',
+    color: 'text-yellow-400 border-yellow-500/30',
+    limit: 4,
+  },
+  {
+    name: 'Alfa',
+    aliases: ['Альфа', 'Альфа-Банк', 'Альфабанк', 'Alfa-Bank', 'Alfabank'],
+    hints: 'Red/White UI, letter A',
+    color: 'text-red-400 border-red-500/30',
+    limit: 5,
+  },
+  {
+    name: 'VTB',
+    aliases: ['ВТБ'],
+    keywords: ['мультибонус'],
+    hints: 'Blue UI',
+    color: 'text-blue-400 border-blue-500/30',
+    limit: 4,
+  },
+  {
+    name: 'Yandex',
+    aliases: ['Яндекс', 'Яндекс Банк', 'Яндекс Пэй', 'Yandex Pay', 'Yandex Bank'],
+    keywords: ['плюс', 'сплит'],
+    hints: 'Yellow/Red/Colorful stripes, Yandex Pay/Bank',
+    color: 'text-amber-400 border-amber-500/30',
+    limit: 5,
+    currency: 'plus',
+  },
+];
+
+// Ready-made definitions offered when adding a bank from the settings
+export const BANK_PRESETS: BankDefinition[] = [
+  {
+    name: 'Ozon',
+    aliases: ['Озон', 'Озон Банк', 'Ozon Bank', 'Ozon Банк'],
+    hints: 'Blue/Pink UI, Ozon Card',
+    color: 'text-sky-400 border-sky-500/30',
+    limit: 3,
+    currency: 'points',
+  },
+  {
+    name: 'MTS',
+    aliases: ['МТС', 'МТС Банк', 'MTS Bank', 'МТС Деньги'],
+    keywords: ['кешбэк мтс'],
+    hints: 'Red/White UI, red egg logo',
+    color: 'text-rose-400 border-rose-500/30',
+    limit: 4,
+  },
+  {
+    name: 'Gazprombank',
+    aliases: ['Газпромбанк', 'ГПБ', 'GPB'],
+    hints: 'Dark blue UI, white-blue flame logo',
+    color: 'text-indigo-400 border-indigo-500/30',
+    limit: 4,
+  },
+  {
+    name: 'Raiffeisen',
+    aliases: ['Райффайзен', 'Райффайзенбанк', 'Raiffeisenbank'],
+    hints: 'Yellow/Black UI, Raiffeisen logo',
+    color: 'text-lime-400 border-lime-500/30',
+    limit: 3,
+  },
+  {
+    name: 'Psb',
+    aliases: ['ПСБ', 'Промсвязьбанк', 'PSB'],
+    hints: 'Orange/Blue UI',
+    color: 'text-orange-400 border-orange-500/30',
+    limit: 4,
+  },
+];
+
+export const BANK_COLORS = [
+  'text-sky-400 border-sky-500/30',
+  'text-rose-400 border-rose-500/30',
+  'text-indigo-400 border-indigo-500/30',
+  'text-lime-400 border-lime-500/30',
+  'text-orange-400 border-orange-500/30',
+  'text-fuchsia-400 border-fuchsia-500/30',
+  'text-teal-400 border-teal-500/30',
+  'text-slate-300 border-slate-500/30',
+];
+
+export const loadCustomBanks = (): BankDefinition[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_BANKS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error("Failed to load custom banks:", error);
+    return [];
+  }
+};
+
+export const saveCustomBanks = (banks: BankDefinition[]) => {
+  try {
+    localStorage.setItem(CUSTOM_BANKS_KEY, JSON.stringify(banks));
+  } catch (error) {
+    console.error("Failed to save custom banks:", error);
+  }
+};
+
+// User definitions win over bundled ones with the same name
+export const getBankRegistry = (custom: BankDefinition[] = loadCustomBanks()): BankDefinition[] => {
+  const customNames = new Set(custom.map(b => normalizeCategoryLabel(b.name)));
+  return [...custom, ...BANK_REGISTRY.filter(b => !customNames.has(normalizeCategoryLabel(b.name)))];
+};
+
+// "Т-Банк", "т банк" and "T-BANK" all compare equal
+const bankKey = (text: string) => normalizeCategoryLabel(text).replace(/-/g, ' ').replace(/\s+/g, ' ');
+
+/**
+ * Maps any spelling of a bank to its registry name.
+ * Exact name/alias first, then the longest alias found as whole words in the text ("Альфа-Банк Кэшбэк").
+ * Unknown banks are returned as written so they still get their own column.
+ */
+export const normalizeBankName = (bankName: string, registry: BankDefinition[] = getBankRegistry()): string => {
+  const norm = bankKey(bankName);
+  if (!norm) return bankName.trim();
+  const spellings = (b: BankDefinition) => [b.name, ...b.aliases].map(bankKey);
+
+  const exact = registry.find(b => spellings(b).includes(norm));
+  if (exact) return exact.name;
+
+  let best: BankDefinition | undefined;
+  let bestLength = 0;
+  registry.forEach(b => {
+    spellings(b).forEach(spelling => {
+      if (spelling.length > bestLength && ` ${norm} `.includes(` ${spelling} `)) {
+        best = b;
+        bestLength = spelling.length;
+      }
+    });
+  });
+  return best ? best.name : bankName.trim();
+};
+
+export const toBankConfig = (bank: BankDefinition): BankConfig => ({
+  enabled: true,
+  limit: bank.limit,
+  color: bank.color,
+  ...(bank.currency && bank.currency !== 'rub' ? { currency: bank.currency, pointValue: 1 } : {}),
+});
+
+export const defaultBankConfigs = (registry: BankDefinition[] = getBankRegistry()): Record<string, BankConfig> =>
+  Object.fromEntries(registry.map(bank => [bank.name, toBankConfig(bank)]));
+
+// "- "Sber" (Green UI, SberPrime; also written as Сбер, Сбербанк)" lines for the AI prompts
+export const describeBanksForPrompt = (registry: BankDefinition[] = getBankRegistry()): string =>
+  registry
+    .map(bank => {
+      const details = [bank.hints, bank.aliases.length > 0 ? `also written as ${bank.aliases.join(', ')}` : undefined]
+        .filter(Boolean)
+        .join('; ');
+      return `- "${bank.name}"${details ? ` (${details})` : ''}`;
+    })
+    .join('\n');
+
+export const bankNamesForPrompt = (registry: BankDefinition[] = getBankRegistry()): string =>
+  registry.map(bank => `"${bank.name}"`).join(', ');
+
+// Words that identify each bank in OCR text: its names plus brand keywords
+export const getBankKeywords = (registry: BankDefinition[] = getBankRegistry()): Record<string, string[]> =>
+  Object.fromEntries(registry.map(bank => [
+    bank.name,
+    [bank.name, ...bank.aliases, ...(bank.keywords ?? [])].map(k => k.toLowerCase()),
+  ]));
@@ -0,0 +1,121 @@
+import { CashbackEntry, CategoryDefinition, CategoryOverrides } from "../types";
+
+const OVERRIDES_KEY = 'cashback.categoryOverrides';
+
+// Canonical categories shared by all banks. MCC codes may be single codes or "from-to" ranges.
+export const CATEGORY_CATALOG: CategoryDefinition[] = [
+  { id: 'groceries', name: 'Супермаркеты', synonyms: ['продукты', 'супермаркеты', 'продуктовые магазины', 'продукты питания', 'гипермаркеты'], mcc: ['5411', '5422', '5441', '5451', '5462', '5499'] },
+  { id: 'restaurants', name: 'Кафе и рестораны', synonyms: ['кафе', 'рестораны', 'кафе и рестораны', 'рестораны и бары', 'бары', 'рестораны и кафе'], mcc: ['5812', '5813'] },
+  { id: 'fastfood', name: 'Фастфуд', synonyms: ['фастфуд', 'фаст-фуд', 'фаст фуд', 'фастфуд и кофейни'], mcc: ['5814'] },
+  { id: 'taxi', name: 'Такси', synonyms: ['такси', 'яндекс go'], mcc: ['4121'] },
+  { id: 'transport', name: 'Транспорт', synonyms: ['транспорт', 'общественный транспорт', 'метро', 'каршеринг'], mcc: ['4111', '4112', '4131', '7512'] },
+  { id: 'fuel', name: 'АЗС', synonyms: ['азс', 'топливо', 'топливо и азс', 'бензин', 'заправки'], mcc: ['5541', '5542', '5983'] },
+  { id: 'auto', name: 'Автоуслуги', synonyms: ['автоуслуги', 'авто', 'автозапчасти', 'автомобиль', 'автомойки'], mcc: ['5511', '5531', '5532', '5533', '7523', '7531', '7534', '7535', '7538', '7542', '7549'] },
+  { id: 'pharmacy', name: 'Аптеки', synonyms: ['аптеки', 'аптека', 'лекарства'], mcc: ['5122', '5912'] },
+  { id: 'medical', name: 'Медицина', synonyms: ['медицина', 'медицинские услуги', 'медицинские центры', 'клиники', 'стоматология'], mcc: ['8011', '8021', '8031', '8041', '8042', '8043', '8049', '8050', '8062', '8071', '8099'] },
+  { id: 'beauty', name: 'Красота', synonyms: ['красота', 'салоны красоты', 'косметика', 'красота и здоровье', 'косметика и парфюмерия'], mcc: ['5977', '7230', '7297', '7298'] },
+  { id: 'clothes', name: 'Одежда и обувь', synonyms: ['одежда', 'обувь', 'одежда и обувь', 'одежда и аксессуары'], mcc: ['5611', '5621', '5631', '5651', '5655', '5661', '5691', '5699'] },
+  { id: 'kids', name: 'Детские товары', synonyms: ['детские товары', 'дети', 'игрушки', 'товары для детей'], mcc: ['5641', '5945'] },
+  { id: 'electronics', name: 'Электроника', synonyms: ['электроника', 'бытовая техника', 'цифровая техника', 'электроника и техника'], mcc: ['5045', '5722', '5732', '5734'] },
+  { id: 'home', name: 'Дом и ремонт', synonyms: ['дом и ремонт', 'товары для дома', 'строительные материалы', 'ремонт', 'мебель'], mcc: ['5200', '5211', '5231', '5251', '5261', '5712', '5713', '5714', '5719'] },
+  { id: 'cinema', name: 'Кино', synonyms: ['кино', 'кинотеатры'], mcc: ['7832'] },
+  { id: 'entertainment', name: 'Развлечения', synonyms: ['развлечения', 'театры', 'концерты', 'музеи', 'досуг'], mcc: ['7911', '7922', '7929', '7932', '7933', '7991', '7994', '7996', '7998', '7999'] },
+  { id: 'sport', name: 'Спорт', synonyms: ['спорт', 'спорттовары', 'фитнес', 'спортивные товары'], mcc: ['5940', '5941', '7941', '7997'] },
+  { id: 'travel', name: 'Путешествия', synonyms: ['путешествия', 'отели', 'авиабилеты', 'ж/д билеты', 'туризм', 'турагентства'], mcc: ['3000-3299', '3501-3999', '4411', '4511', '4722', '7011'] },
+  { id: 'pets', name: 'Животные', synonyms: ['животные', 'зоотовары', 'ветеринария', 'товары для животных', 'зоомагазины'], mcc: ['0742', '5995'] },
+  { id: 'books', name: 'Книги и канцтовары', synonyms: ['книги', 'канцтовары', 'книги и канцтовары'], mcc: ['5192', '5942', '5943'] },
+  { id: 'flowers', name: 'Цветы', synonyms: ['цветы'], mcc: ['5193', '5992'] },
+  { id: 'education', name: 'Образование', synonyms: ['образование', 'обучение', 'курсы'], mcc: ['8211', '8220', '8241', '8244', '8249', '8299'] },
+  { id: 'telecom', name: 'Связь', synonyms: ['связь', 'мобильная связь', 'интернет', 'связь и интернет'], mcc: ['4812', '4814', '4899'] },
+  { id: 'digital', name: 'Цифровые товары', synonyms: ['цифровые товары', 'онлайн-кинотеатры', 'подписки', 'игры', 'музыка'], mcc: ['5815', '5816', '5817', '5818'] },
+  { id: 'marketplaces', name: 'Маркетплейсы', synonyms: ['маркетплейсы', 'ozon', 'wildberries', 'озон', 'вайлдберриз'], mcc: ['5262', '5399', '5964'] },
+  { id: 'utilities', name: 'ЖКУ', synonyms: ['жку', 'жкх', 'коммунальные услуги', 'коммунальные платежи'], mcc: ['4900'] },
+  { id: 'everything', name: 'Все покупки', synonyms: ['все покупки', 'на всё', 'на все', 'на все покупки', 'остальные покупки', 'всё'], mcc: [] },
+];
+
+export const normalizeCategoryLabel = (label: string) =>
+  label
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/[«»"'.,!?()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const getCategoryById = (id: string | undefined) =>
+  id ? CATEGORY_CATALOG.find(c => c.id === id) : undefined;
+
+const mccMatches = (pattern: string, mcc: number) => {
+  const [from, to] = pattern.split('-').map(p => parseInt(p, 10));
+  return to === undefined ? mcc === from : mcc >= from && mcc <= to;
+};
+
+export const findCategoryByMcc = (mcc: string): CategoryDefinition | undefined => {
+  const code = parseInt(mcc, 10);
+  if (isNaN(code)) return undefined;
+  return CATEGORY_CATALOG.find(c => c.mcc.some(p => mccMatches(p, code)));
+};
+
+/**
+ * Resolves a bank's label to a canonical category ID.
+ * Returns null when the user explicitly asked to keep the label as its own category.
+ */
+export const resolveCategoryId = (label: string, overrides: CategoryOverrides = {}): string | null | undefined => {
+  const norm = normalizeCategoryLabel(label);
+  if (!norm) return undefined;
+  if (Object.hasOwn(overrides, norm)) return overrides[norm];
+
+  // 1. Exact name or synonym
+  const exact = CATEGORY_CATALOG.find(c =>
+    normalizeCategoryLabel(c.name) === norm || c.synonyms.some(s => normalizeCategoryLabel(s) === norm)
+  );
+  if (exact) return exact.id;
+
+  // 2. Longest synonym contained in the label as whole words ("Рестораны и бары" -> restaurants)
+  let best: { id: string; length: number } | undefined;
+  CATEGORY_CATALOG.forEach(c => {
+    [c.name, ...c.synonyms].forEach(s => {
+      const syn = normalizeCategoryLabel(s);
+      if (syn.length < 3) return;
+      if (` ${norm} `.includes(` ${syn} `) && (!best || syn.length > best.length)) {
+        best = { id: c.id, length: syn.length };
+      }
+    });
+  });
+  return best?.id;
+};
+
+// Maps an entry to its canonical category, keeping the bank's own wording in rawCategory
+export const applyCanonicalCategory = (entry: CashbackEntry, overrides: CategoryOverrides = loadCategoryOverrides()): CashbackEntry => {
+  const rawCategory = (entry.rawCategory ?? entry.category).trim();
+  const categoryId = resolveCategoryId(rawCategory, overrides) ?? undefined;
+  const canonical = getCategoryById(categoryId);
+  return {
+    ...entry,
+    rawCategory,
+    categoryId,
+    category: canonical ? canonical.name : rawCategory,
+  };
+};
+
+export const loadCategoryOverrides = (): CategoryOverrides => {
+  try {
+    const raw = localStorage.getItem(OVERRIDES_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error("Failed to load category overrides:", error);
+    return {};
+  }
+};
+
+export const saveCategoryOverrides = (overrides: CategoryOverrides) => {
+  try {
+    localStorage.setItem(OVERRIDES_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.error("Failed to save category overrides:", error);
+  }
+};
+
+export const setCategoryOverride = (overrides: CategoryOverrides, label: string, categoryId: string | null): CategoryOverrides => ({
+  ...overrides,
+  [normalizeCategoryLabel(label)]: categoryId,
+});
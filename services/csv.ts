@@ -0,0 +1,54 @@
+// Minimal RFC 4180 CSV: quoted fields may contain the delimiter, quotes ("") and line breaks
+
+const escapeField = (value: string, delimiter: string) =>
+  /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][], delimiter = ';') =>
+  rows.map(row => row.map(field => escapeField(field, delimiter)).join(delimiter)).join('\r\n');
+
+// Picks whichever of ; , or tab splits the header line into the most columns
+export const detectDelimiter = (text: string) => {
+  const header = text.split(/\r?\n/, 1)[0] ?? '';
+  return [';', ',', '\t'].reduce((best, d) => (header.split(d).length > header.split(best).length ? d : best), ';');
+};
+
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(f => f.trim()));
+};
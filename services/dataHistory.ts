@@ -0,0 +1,27 @@
+import { CashbackEntry, DataHistory } from "../types";
+
+// Oldest steps are dropped past this point to keep the saved session small
+export const MAX_HISTORY_STEPS = 50;
+
+export const createHistory = (data: CashbackEntry[] = [], label = 'Начало'): DataHistory => ({
+  steps: [{ label, data, timestamp: Date.now() }],
+  index: 0,
+});
+
+export const currentData = (history: DataHistory): CashbackEntry[] => history.steps[history.index]?.data ?? [];
+
+// Records a new state; anything that was undone is discarded
+export const pushHistory = (history: DataHistory, label: string, data: CashbackEntry[]): DataHistory => {
+  const steps = [...history.steps.slice(0, history.index + 1), { label, data, timestamp: Date.now() }];
+  const overflow = Math.max(0, steps.length - MAX_HISTORY_STEPS);
+  return { steps: steps.slice(overflow), index: steps.length - 1 - overflow };
+};
+
+export const canUndo = (history: DataHistory) => history.index > 0;
+export const canRedo = (history: DataHistory) => history.index < history.steps.length - 1;
+
+export const jumpTo = (history: DataHistory, index: number): DataHistory =>
+  index >= 0 && index < history.steps.length ? { ...history, index } : history;
+
+export const undo = (history: DataHistory) => jumpTo(history, history.index - 1);
+export const redo = (history: DataHistory) => jumpTo(history, history.index + 1);
@@ -0,0 +1,30 @@
+import { CashbackEntry, EntryKind } from "../types";
+
+export interface EntryKindInfo {
+  label: string;
+  short: string; // Badge shown next to the % in the matrix
+}
+
+export const ENTRY_KINDS: Record<EntryKind, EntryKindInfo> = {
+  selectable: { label: 'На выбор', short: '' },
+  permanent: { label: 'Постоянная', short: 'всегда' },
+  promo: { label: 'Акция', short: 'акция' },
+};
+
+// Canonical category of the base rate ("1% на всё")
+export const BASE_RATE_CATEGORY_ID = 'everything';
+
+export const isEntryKind = (value: unknown): value is EntryKind =>
+  typeof value === 'string' && Object.hasOwn(ENTRY_KINDS, value);
+
+// Old entries have no kind: the base rate is permanent, everything else is picked monthly
+export const getEntryKind = (entry: Pick<CashbackEntry, 'kind' | 'categoryId'>): EntryKind =>
+  entry.kind ?? (entry.categoryId === BASE_RATE_CATEGORY_ID ? 'permanent' : 'selectable');
+
+// Only monthly picks use up the bank's Top-N slots
+export const countsAgainstLimit = (entry: Pick<CashbackEntry, 'kind' | 'categoryId'>) =>
+  getEntryKind(entry) === 'selectable';
+
+// A permanent "на всё" offer applies to every category the bank has no better offer for
+export const isBaseRate = (entry: Pick<CashbackEntry, 'kind' | 'categoryId'>) =>
+  entry.categoryId === BASE_RATE_CATEGORY_ID && getEntryKind(entry) === 'permanent';
@@ -0,0 +1,66 @@
+import { CashbackEntry, ReviewItem } from "../types";
+import { normalizeBankName } from "./bankRegistry";
+import { parseCardKey } from "./household";
+
+// Entries below this confidence wait in the review queue instead of going into the matrix
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7;
+
+// Banks' category offers rarely go past this; higher values are usually misread
+const PLAUSIBLE_MAX_PERCENTAGE = 30;
+
+export interface EntryValidation {
+  issues: string[];
+  isValid: boolean;   // False when the entry can't be used at all
+  confidence: number; // Model confidence reduced by every rule that failed
+}
+
+/**
+ * Checks a parsed entry against plausible ranges, known banks and known categories.
+ * Errors make the entry unusable; each warning multiplies its confidence by a penalty.
+ */
+export const validateEntry = (entry: CashbackEntry, knownBanks: string[]): EntryValidation => {
+  const errors: string[] = [];
+  const warnings: { message: string; penalty: number }[] = [];
+  const bank = normalizeBankName(entry.bankName.trim());
+
+  if (!bank || bank === 'Other') errors.push('Банк не распознан');
+  else if (!knownBanks.some(known => parseCardKey(known).bank === bank)) warnings.push({ message: `Неизвестный банк «${bank}»`, penalty: 0.6 });
+
+  // Banks do have niche categories, so an unmapped one alone doesn't send the entry to review
+  if (!entry.category.trim()) errors.push('Нет категории');
+  else if (!entry.categoryId) warnings.push({ message: `Категория «${entry.category}» не найдена в справочнике`, penalty: 0.8 });
+
+  if (typeof entry.percentage !== 'number' || isNaN(entry.percentage)) errors.push('Процент не распознан');
+  else if (entry.percentage <= 0 || entry.percentage > 100) errors.push(`Невозможный процент: ${entry.percentage}%`);
+  else if (entry.percentage > PLAUSIBLE_MAX_PERCENTAGE) warnings.push({ message: `Подозрительно высокий процент: ${entry.percentage}%`, penalty: 0.5 });
+
+  if (entry.cap !== undefined && entry.cap <= 0) warnings.push({ message: 'Лимит кэшбэка не больше нуля', penalty: 0.8 });
+
+  if (entry.validFrom && entry.validUntil && entry.validUntil < entry.validFrom) {
+    warnings.push({ message: 'Дата окончания раньше даты начала', penalty: 0.5 });
+  }
+
+  const modelConfidence = entry.confidence ?? 1;
+  const confidence = errors.length > 0 ? 0 : warnings.reduce((c, w) => c * w.penalty, modelConfidence);
+
+  return {
+    issues: [...errors, ...warnings.map(w => w.message)],
+    isValid: errors.length === 0,
+    confidence: Math.round(confidence * 100) / 100,
+  };
+};
+
+// Splits freshly parsed entries into ones safe to use and ones the user has to look at
+export const triageEntries = (entries: CashbackEntry[], knownBanks: string[]) => {
+  const accepted: CashbackEntry[] = [];
+  const review: ReviewItem[] = [];
+
+  entries.forEach(entry => {
+    const { issues, isValid, confidence } = validateEntry(entry, knownBanks);
+    const scored = { ...entry, confidence };
+    if (isValid && confidence >= REVIEW_CONFIDENCE_THRESHOLD) accepted.push(scored);
+    else review.push({ entry: scored, issues });
+  });
+
+  return { accepted, review };
+};
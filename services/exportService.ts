@@ -0,0 +1,285 @@
+import { BankConfig, CashbackEntry, SpendingProfile } from "../types";
+import { buildMatrix, CashbackMatrix, describeCell, formatRub, MatrixCell } from "./matrix";
+import { toCsv } from "./csv";
+import { buildCalendar, CalendarEvent } from "./icalendar";
+import { addDays, formatDate, monthRange } from "./validity";
+
+export const SNAPSHOT_FORMAT = 'cashback-session';
+export const SNAPSHOT_VERSION = 1;
+
+// Lossless copy of a month: entries exactly as stored plus the settings they were chosen with
+export interface SessionSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  exportedAt: string;
+  month: string;
+  entries: CashbackEntry[];
+  bankConfigs: Record<string, BankConfig>;
+  spendingProfile?: SpendingProfile;
+}
+
+export interface ExportContext {
+  month: string;
+  data: CashbackEntry[];
+  bankConfigs: Record<string, BankConfig>;
+  spendingProfile: SpendingProfile;
+}
+
+// Entry columns shared by CSV and the XLSX offers sheet; the import accepts either the label or the key
+export const ENTRY_COLUMNS: { key: keyof CashbackEntry; label: string }[] = [
+  { key: 'bankName', label: 'Банк' },
+  { key: 'owner', label: 'Владелец' },
+  { key: 'category', label: 'Категория' },
+  { key: 'percentage', label: 'Процент' },
+  { key: 'cap', label: 'Лимит' },
+  { key: 'currency', label: 'Валюта' },
+  { key: 'kind', label: 'Тип' },
+  { key: 'selection', label: 'Выбор' },
+  { key: 'validFrom', label: 'Действует с' },
+  { key: 'validUntil', label: 'Действует до' },
+  { key: 'rawCategory', label: 'Как в банке' },
+  { key: 'originalText', label: 'Исходный текст' },
+];
+
+const entryRow = (entry: CashbackEntry) =>
+  ENTRY_COLUMNS.map(({ key }) => (entry[key] === undefined ? '' : String(entry[key])));
+
+export const downloadFile = (content: Blob | string, filename: string, type = 'text/plain') => {
+  const element = document.createElement("a");
+  const file = typeof content === 'string' ? new Blob([content], { type }) : content;
+  element.href = URL.createObjectURL(file);
+  element.download = filename;
+  document.body.appendChild(element); // Required for this to work in FireFox
+  element.click();
+  document.body.removeChild(element);
+};
+
+export const buildSnapshot = ({ month, data, bankConfigs, spendingProfile }: ExportContext): SessionSnapshot => ({
+  format: SNAPSHOT_FORMAT,
+  version: SNAPSHOT_VERSION,
+  exportedAt: new Date().toISOString(),
+  month,
+  entries: data,
+  bankConfigs,
+  spendingProfile,
+});
+
+export const exportJson = (context: ExportContext) => {
+  downloadFile(JSON.stringify(buildSnapshot(context), null, 2), `cashback_${context.month}.json`, 'application/json');
+};
+
+// Semicolons and a BOM so Excel with Russian locale opens it correctly
+export const exportCsv = ({ month, data }: ExportContext) => {
+  const csv = toCsv([ENTRY_COLUMNS.map(c => c.label), ...data.map(entryRow)]);
+  downloadFile(`\uFEFF${csv}`, `cashback_${month}.csv`, 'text/csv;charset=utf-8');
+};
+
+const WINNER_FILL = 'FF10B981';
+const SELECTED_FILL = 'FFD1FAE5';
+
+export const exportXlsx = async (context: ExportContext) => {
+  // Loaded on demand, the library is large and only needed here
+  const { default: ExcelJS } = await import('exceljs');
+  const { matrix, targetBanks, totalExpected }: CashbackMatrix = buildMatrix(context.data, context.bankConfigs, context.spendingProfile, context.month);
+  const workbook = new ExcelJS.Workbook();
+
+  // 1. Matrix with the optimizer's choice highlighted
+  const sheet = workbook.addWorksheet('Матрица');
+  sheet.addRow(['Категория', 'Траты/мес', ...targetBanks]).font = { bold: true };
+  matrix.forEach(row => {
+    const added = sheet.addRow([row.name, Math.round(row.spend), ...row.values.map(v => (v.percentage !== undefined ? describeCell(v) : ''))]);
+    row.values.forEach((cell, idx) => {
+      if (!cell.isSelected && !cell.isWinner) return;
+      const target = added.getCell(idx + 3);
+      target.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: cell.isWinner ? WINNER_FILL : SELECTED_FILL } };
+      if (cell.isWinner) target.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    });
+  });
+  sheet.addRow([]);
+  sheet.addRow(['Ожидаемый кэшбэк, ₽/мес', Math.round(totalExpected)]).font = { bold: true };
+  const legend = sheet.addRow(['Платить этой картой', 'Выбрать категорию']);
+  legend.getCell(1).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: WINNER_FILL } };
+  legend.getCell(2).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: SELECTED_FILL } };
+  sheet.getColumn(1).width = 28;
+  sheet.getColumn(2).width = 12;
+  targetBanks.forEach((_, idx) => {
+    sheet.getColumn(idx + 3).width = 14;
+  });
+  sheet.views = [{ state: 'frozen', xSplit: 1, ySplit: 1 }];
+
+  // 2. Raw offers, same columns as the CSV
+  const offers = workbook.addWorksheet('Предложения');
+  offers.addRow(ENTRY_COLUMNS.map(c => c.label)).font = { bold: true };
+  context.data.forEach(entry => {
+    offers.addRow(ENTRY_COLUMNS.map(({ key }) => entry[key] ?? ''));
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadFile(
+    new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `cashback_${context.month}.xlsx`
+  );
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Winners by expected ₽, with where the spend continues once a cap is hit
+const cheatSheetLines = ({ matrix }: CashbackMatrix) =>
+  matrix
+    .map(row => ({ row, winner: row.values.find(v => v.isWinner) }))
+    .filter((item): item is { row: typeof item.row; winner: MatrixCell } => item.winner !== undefined)
+    .sort((a, b) => (b.winner.expected ?? 0) - (a.winner.expected ?? 0))
+    .map(({ row, winner }) => {
+      const [first, ...overflow] = row.allocation;
+      const next = first && overflow.length > 0
+        ? overflow.map(a => `${a.bank} (${describeCell(row.values.find(v => v.bank === a.bank)!)})`).join(', затем ')
+        : undefined;
+      return { row, winner, next, overflowAfter: first?.spend };
+    });
+
+// Partner promos work without being picked, so they are listed separately from the winners
+const promoLines = ({ matrix }: CashbackMatrix) =>
+  matrix.flatMap(row => row.values.filter(v => v.kind === 'promo' && v.validity !== 'expired').map(cell => ({ row, cell })));
+
+const promoTerms = (cell: MatrixCell) => [describeCell(cell), cell.validUntil && `до ${formatDate(cell.validUntil)}`].filter(Boolean).join(', ');
+
+export const buildTextCheatSheet = (context: ExportContext, date: string) => {
+  const cashbackMatrix = buildMatrix(context.data, context.bankConfigs, context.spendingProfile, context.month);
+  const lines = ["📋 ПАМЯТКА ПО КЭШБЭКУ", "=====================", `📅 ${date}\n`];
+
+  cheatSheetLines(cashbackMatrix).forEach(({ row, winner, next, overflowAfter }) => {
+    lines.push(`✅ ${row.name}: ${winner.bank} (${describeCell(winner)}, ~${formatRub(winner.expected ?? 0)}/мес)`);
+    if (next) lines.push(`   ↳ после ${formatRub(overflowAfter ?? 0)} трат — ${next}`);
+  });
+  lines.push(`\n💰 Ожидаемый кэшбэк: ~${formatRub(cashbackMatrix.totalExpected)}/мес`);
+
+  const promos = promoLines(cashbackMatrix);
+  if (promos.length > 0) {
+    lines.push("\n🎁 Акции (выбирать не нужно):");
+    promos.forEach(({ row, cell }) => lines.push(`   ${row.name}: ${cell.bank} (${promoTerms(cell)})`));
+  }
+
+  lines.push("\n=====================");
+  lines.push("Сгенерировано AI Cashacker");
+  return lines.join('\n');
+};
+
+export const buildHtmlCheatSheet = (context: ExportContext, date: string) => {
+  const cashbackMatrix = buildMatrix(context.data, context.bankConfigs, context.spendingProfile, context.month);
+  const banks = cashbackMatrix.targetBanks.map(bank => ({
+    bank,
+    categories: cashbackMatrix.optimization.assignments[bank] ?? [],
+  })).filter(b => b.categories.length > 0);
+
+  const rows = cheatSheetLines(cashbackMatrix).map(({ row, winner, next, overflowAfter }) => `
+    <tr>
+      <td>${escapeHtml(row.name)}</td>
+      <td class="bank">${escapeHtml(winner.bank)}</td>
+      <td>${escapeHtml(describeCell(winner))}</td>
+      <td class="num">~${formatRub(winner.expected ?? 0)}</td>
+    </tr>${next ? `
+    <tr class="overflow"><td colspan="4">↳ после ${formatRub(overflowAfter ?? 0)} трат — ${escapeHtml(next)}</td></tr>` : ''}`).join('');
+
+  const promos = promoLines(cashbackMatrix).map(({ row, cell }) =>
+    `<li>${escapeHtml(row.name)}: <b>${escapeHtml(cell.bank)}</b> (${escapeHtml(promoTerms(cell))})</li>`
+  ).join('');
+
+  const choices = banks.map(({ bank, categories }) =>
+    `<li><b>${escapeHtml(bank)}</b>: ${categories.map(escapeHtml).join(', ')}</li>`
+  ).join('');
+
+  return `<!DOCTYPE html>
+<html lang="ru">
+<head>
+<meta charset="UTF-8">
+<title>Памятка по кэшбэку — ${escapeHtml(date)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; color: #111; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .date { color: #555; margin-bottom: 16px; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; }
+  th { background: #f3f4f6; }
+  .bank { font-weight: bold; color: #047857; }
+  .num { text-align: right; white-space: nowrap; }
+  .overflow td { color: #555; font-size: 12px; padding-left: 24px; }
+  .total { margin-top: 12px; font-weight: bold; }
+  h2 { font-size: 15px; margin: 20px 0 6px; }
+  ul { margin: 0; padding-left: 18px; font-size: 13px; }
+  @media print { body { margin: 0; } tr { page-break-inside: avoid; } }
+</style>
+</head>
+<body>
+  <h1>📋 Памятка по кэшбэку</h1>
+  <div class="date">${escapeHtml(date)}</div>
+  <table>
+    <thead><tr><th>Категория</th><th>Карта</th><th>Кэшбэк</th><th class="num">В месяц</th></tr></thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <div class="total">💰 Ожидаемый кэшбэк: ~${formatRub(cashbackMatrix.totalExpected)}/мес</div>
+  <h2>Что выбрать в приложениях банков</h2>
+  <ul>${choices}</ul>${promos ? `
+  <h2>Акции (выбирать не нужно)</h2>
+  <ul>${promos}</ul>` : ''}
+</body>
+</html>`;
+};
+
+// Opens the cheat sheet in a new window and brings up the print dialog ("Save as PDF" works there)
+export const printCheatSheet = (context: ExportContext, date: string) => {
+  const html = buildHtmlCheatSheet(context, date);
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    downloadFile(html, `cashback_${context.month}.html`, 'text/html');
+    return;
+  }
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
+
+// "Choose categories by the 1st" for every bank with monthly picks, plus the end of every promo
+export const buildCalendarEvents = (context: ExportContext): CalendarEvent[] => {
+  const { matrix, targetBanks } = buildMatrix(context.data, context.bankConfigs, context.spendingProfile, context.month);
+  const { until: monthEnd } = monthRange(context.month);
+  const nextMonthStart = addDays(monthEnd, 1);
+  const uidOf = (...parts: string[]) => `${parts.join('-').replace(/[^a-zA-Z0-9-]/g, '_')}@cashacker`;
+  const events: CalendarEvent[] = [];
+
+  targetBanks.forEach((bank, idx) => {
+    const cells = matrix.map(row => ({ row, cell: row.values.find(v => v.bank === bank)! }));
+    if (!cells.some(({ cell }) => cell.kind === 'selectable')) return;
+    const current = cells.filter(({ cell }) => cell.kind === 'selectable' && cell.isSelected).map(({ row }) => row.name);
+    events.push({
+      uid: uidOf(context.month, 'choose', String(idx), bank),
+      date: nextMonthStart,
+      summary: `Выбрать категории кэшбэка: ${bank}`,
+      description: current.length > 0 ? `В этом месяце: ${current.join(', ')}` : undefined,
+      remindDaysBefore: 1,
+    });
+  });
+
+  matrix.forEach((row, rowIdx) => {
+    row.values.forEach(cell => {
+      if (cell.kind !== 'promo' || cell.validity === 'expired') return;
+      const endsOn = cell.validUntil ?? monthEnd;
+      events.push({
+        uid: uidOf(context.month, 'promo', String(rowIdx), cell.bank),
+        date: endsOn,
+        summary: `Заканчивается акция: ${cell.bank} · ${row.name} ${describeCell(cell)}`,
+        description: `Действует до ${formatDate(endsOn)} включительно`,
+        remindDaysBefore: 1,
+      });
+    });
+  });
+
+  return events;
+};
+
+export const exportIcs = (context: ExportContext) => {
+  const calendar = buildCalendar(buildCalendarEvents(context), 'Кэшбэк');
+  downloadFile(calendar, `cashback_${context.month}.ics`, 'text/calendar');
+};
@@ -1,7 +1,54 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { CashbackEntry } from "../types";
+import { CashbackEntry, EditableEntryFields, PatchOperation } from "../types";
+import { applyCanonicalCategory, CATEGORY_CATALOG } from "./categoryCatalog";
+import { isRewardCurrency } from "./rewards";
+import { isEntryKind } from "./entryKinds";
+import { isIsoDate } from "./validity";
+import { generateJson, JsonSchema } from "./aiProvider";
+import { regionFromModelBox } from "./sourceImages";
+import { bankNamesForPrompt, describeBanksForPrompt, normalizeBankName } from "./bankRegistry";
+import { parsePurchaseAmount } from "./purchaseAdvisor";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Shape shared by every call that returns cashback offers
+const ENTRY_PROPERTIES: Record<string, JsonSchema> = {
+  bankName: { type: 'string' },
+  category: { type: 'string' },
+  percentage: { type: 'number' }
+};
+
+const ENTRY_LIST_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: { type: 'object', properties: ENTRY_PROPERTIES }
+};
+
+const SCREENSHOT_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      ...ENTRY_PROPERTIES,
+      cap: { type: 'number' },
+      currency: { type: 'string' },
+      kind: { type: 'string', description: 'selectable | permanent | promo' },
+      validFrom: { type: 'string', description: 'YYYY-MM-DD' },
+      validUntil: { type: 'string', description: 'YYYY-MM-DD' },
+      originalText: { type: 'string' },
+      confidence: { type: 'number' },
+      box: { type: 'array', items: { type: 'number' } }
+    }
+  }
+};
+
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+
+// Missing values stay empty/NaN so validation can flag them instead of inventing defaults
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+const asNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseFloat(value.replace(',', '.'));
+  return NaN;
+};
+const asConfidence = (value: unknown): number | undefined =>
+  typeof value === 'number' && value >= 0 && value <= 1 ? value : undefined;
 
 // Helper to convert File to Base64
 const fileToGenerativePart = async (file: File): Promise<string> => {
@@ -17,63 +64,72 @@ const fileToGenerativePart = async (file: File): Promise<string> => {
   });
 };
 
-export const refineDataWithContext = async (currentData: CashbackEntry[], userInstruction: string): Promise<CashbackEntry[]> => {
-  if (!userInstruction || userInstruction.trim().length === 0) return currentData;
+const PATCH_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      op: { type: 'string' },
+      targetId: { type: 'string' },
+      ...ENTRY_PROPERTIES,
+      reason: { type: 'string' }
+    }
+  }
+};
+
+// Turns the model's flat operation objects into typed operations, dropping anything that doesn't apply
+const toPatchOperations = (rawData: any[], currentData: CashbackEntry[]): PatchOperation[] => {
+  const ids = new Set(currentData.map(e => e.id));
+  const operations: PatchOperation[] = [];
+
+  rawData.forEach((item: any) => {
+    const reason = typeof item.reason === 'string' && item.reason ? item.reason : undefined;
+    const changes: Partial<EditableEntryFields> = {};
+    if (typeof item.bankName === 'string' && item.bankName) changes.bankName = item.bankName;
+    if (typeof item.category === 'string' && item.category) changes.category = item.category;
+    if (typeof item.percentage === 'number') changes.percentage = item.percentage;
+
+    if (item.op === 'delete' && ids.has(item.targetId)) {
+      operations.push({ op: 'delete', targetId: item.targetId, reason });
+    } else if (item.op === 'update' && ids.has(item.targetId) && Object.keys(changes).length > 0) {
+      operations.push({ op: 'update', targetId: item.targetId, changes, reason });
+    } else if (item.op === 'add' && changes.bankName && changes.category && changes.percentage !== undefined) {
+      operations.push({
+        op: 'add',
+        entry: { bankName: changes.bankName, category: changes.category, percentage: changes.percentage },
+        reason
+      });
+    }
+  });
+
+  return operations;
+};
+
+export const refineDataWithContext = async (currentData: CashbackEntry[], userInstruction: string): Promise<PatchOperation[]> => {
+  if (!userInstruction || userInstruction.trim().length === 0) return [];
 
   try {
-    const model = "gemini-2.0-flash-exp";
+    const compactData = currentData.map(({ id, bankName, owner, category, percentage }) => ({ id, bankName, owner, category, percentage }));
     const prompt = `
       You are a data editor. I have a JSON dataset of cashback offers from various banks.
       
-      Current Data: ${JSON.stringify(currentData)}
+      Current Data: ${JSON.stringify(compactData)}
       
       User Instruction: "${userInstruction}"
       
       Your task:
       1. Analyze the User Instruction.
-      2. Modify the Current Data based on the instruction.
-         - If the user says "Change Sber Taxi to 10%", update the percentage.
-         - If the user says "Add 5% on Flowers in Alfa", add a new entry.
-         - If the user says "Delete VTB", remove those entries.
-         - If the user says "I will buy a TV", and you know a category matches (e.g., Electronics), you might increase its priority, but primarily focus on explicit data changes.
-      3. Return the FULL updated JSON array.
-      4. Normalize Bank Names (Sber, T-Bank, Alfa, VTB, Yandex) and Category names (Capitalized) as before.
+      2. Describe the changes to the Current Data as a list of operations. Do NOT return the dataset itself.
+         - {"op": "update", "targetId": "<id>", "percentage": 10} — "Change Sber Taxi to 10%". Only include the fields that change.
+         - {"op": "add", "bankName": "Alfa", "category": "Цветы", "percentage": 5} — "Add 5% on Flowers in Alfa".
+         - {"op": "delete", "targetId": "<id>"} — "Delete VTB" produces one delete per VTB entry.
+         - If the user only talks about preferences ("I will buy a TV"), return an empty list.
+      3. targetId must be an id from the Current Data. Add a short "reason" in Russian to every operation.
+      4. Normalize Bank Names to one of ${bankNamesForPrompt()} (or the name as the user wrote it) and Category names (Capitalized) as before.
     `;
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: {
-        parts: [{ text: prompt }]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              bankName: { type: Type.STRING },
-              category: { type: Type.STRING },
-              percentage: { type: Type.NUMBER }
-            }
-          }
-        }
-      }
-    });
-
-    const respText = response.text;
-    if (!respText) return currentData;
-
-    const rawData = JSON.parse(respText);
-    
-    // Ensure IDs exist
-    return rawData.map((item: any) => ({
-      id: item.id || `refined-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      bankName: item.bankName || "Other",
-      category: item.category || "Manual Category",
-      percentage: item.percentage || 0,
-      originalText: "Refined by user"
-    }));
+    const rawData = asArray(await generateJson({ task: 'refine', prompt, schema: PATCH_SCHEMA, input: currentData }));
+    return toPatchOperations(rawData, currentData);
 
   } catch (error) {
     console.error("Error refining data:", error);
@@ -81,18 +137,104 @@ export const refineDataWithContext = async (currentData: CashbackEntry[], userIn
   }
 };
 
+// Fallback for merchants missing from the bundled dataset
+export const classifyMerchant = async (merchantName: string): Promise<{ categoryId?: string; mcc?: string }> => {
+  if (!merchantName || merchantName.trim().length === 0) return {};
+
+  try {
+    const categories = CATEGORY_CATALOG.map(c => `- ${c.id}: ${c.name}`).join('\n');
+    const prompt = `
+      A user in Russia wants to pay at the merchant "${merchantName}".
+      Determine the most likely MCC code this merchant uses for card payments
+      and pick the matching category ID from this list:
+      ${categories}
+
+      Return a JSON object:
+      - categoryId: string (one of the IDs above, or empty if unsure)
+      - mcc: string (4 digits, or empty if unsure)
+    `;
+
+    const raw: any = await generateJson({
+      task: 'merchant',
+      prompt,
+      schema: { type: 'object', properties: { categoryId: { type: 'string' }, mcc: { type: 'string' } } },
+      input: merchantName
+    }) ?? {};
+    const categoryId = CATEGORY_CATALOG.some(c => c.id === raw.categoryId) ? raw.categoryId : undefined;
+    const mcc = /^\d{4}$/.test(raw.mcc || '') ? raw.mcc : undefined;
+    return { categoryId, mcc };
+
+  } catch (error) {
+    console.error("Error classifying merchant:", error);
+    throw error;
+  }
+};
+
+export interface PurchaseQuestion {
+  categoryKey?: string; // Row key of the matrix category the purchase falls into
+  amount?: number;      // ₽
+  merchant?: string;
+  reason?: string;      // Why the model picked the category, shown to the user
+}
+
+// Only maps the question onto the matrix; the card, % and ₽ are computed from the data afterwards
+export const interpretPurchase = async (question: string, categories: { key: string; name: string }[]): Promise<PurchaseQuestion> => {
+  if (!question || question.trim().length === 0) return {};
+
+  try {
+    const list = categories.map(c => `- ${c.key}: ${c.name}`).join('\n');
+    const prompt = `
+      A user in Russia asks which card to pay with: "${question}"
+      Their cashback categories this month, as "key: name":
+      ${list}
+
+      Return a JSON object:
+      - categoryKey: string (the key of the category the purchase falls into, or empty if none fits)
+      - amount: number (purchase amount in rubles, "60k" = 60000; 0 if not stated)
+      - merchant: string (store or service name, or empty)
+      - reason: string (one short sentence in Russian explaining the category choice)
+      Do NOT compute cashback, percentages or recommend a card.
+    `;
+
+    const raw: any = await generateJson({
+      task: 'purchase',
+      prompt,
+      schema: {
+        type: 'object',
+        properties: {
+          categoryKey: { type: 'string' },
+          amount: { type: 'number' },
+          merchant: { type: 'string' },
+          reason: { type: 'string' },
+        },
+      },
+      input: { question, categories }
+    }) ?? {};
+    const amount = asNumber(raw.amount);
+    return {
+      categoryKey: categories.some(c => c.key === raw.categoryKey) ? raw.categoryKey : undefined,
+      amount: amount > 0 ? amount : parsePurchaseAmount(question),
+      merchant: asText(raw.merchant) || undefined,
+      reason: asText(raw.reason) || undefined,
+    };
+
+  } catch (error) {
+    console.error("Error interpreting purchase:", error);
+    throw error;
+  }
+};
+
 export const parseUserContext = async (text: string): Promise<CashbackEntry[]> => {
   if (!text || text.trim().length === 0) return [];
 
   try {
-    const model = "gemini-2.0-flash-exp";
     const prompt = `
       Analyze this user comment regarding their cashback categories.
       Extract any specific cashback offers mentioned.
       If the user says "I have 10% on Taxi in Sber", extract it.
       If the user just talks about preferences ("I want to buy a TV"), ignore it unless they state a specific % and category.
       
-      Normalize Bank Names to: "Sber", "T-Bank", "Alfa", "VTB", "Yandex", or "Other".
+      Normalize Bank Names to one of: ${bankNamesForPrompt()}. For any other bank use its name as the user wrote it.
       
       Return a JSON array of objects:
       - bankName: string
@@ -100,40 +242,18 @@ export const parseUserContext = async (text: string): Promise<CashbackEntry[]> =
       - percentage: number
     `;
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: {
-        parts: [
-          { text: `User Comment: "${text}"` },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              bankName: { type: Type.STRING },
-              category: { type: Type.STRING },
-              percentage: { type: Type.NUMBER }
-            }
-          }
-        }
-      }
-    });
-
-    const respText = response.text;
-    if (!respText) return [];
-
-    const rawData = JSON.parse(respText);
-    
-    return rawData.map((item: any) => ({
+    const rawData = asArray(await generateJson({
+      task: 'context',
+      prompt: `User Comment: "${text}"\n${prompt}`,
+      schema: ENTRY_LIST_SCHEMA,
+      input: text
+    }));
+
+    return rawData.map((item: any) => applyCanonicalCategory({
       id: `context-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      bankName: item.bankName || "Other",
-      category: item.category || "Manual Category",
-      percentage: item.percentage || 0,
+      bankName: normalizeBankName(asText(item.bankName)),
+      category: asText(item.category),
+      percentage: asNumber(item.percentage),
       originalText: "Added via comment"
     }));
 
@@ -144,68 +264,63 @@ export const parseUserContext = async (text: string): Promise<CashbackEntry[]> =
   }
 };
 
-export const parseCashbackScreenshot = async (file: File): Promise<CashbackEntry[]> => {
+export const parseCashbackScreenshot = async (file: File, year: number, signal?: AbortSignal): Promise<CashbackEntry[]> => {
   try {
     const base64Data = await fileToGenerativePart(file);
-    const model = "gemini-2.0-flash-exp";
 
     // Updated prompt to handle specific banks and normalization
     const prompt = `
-      Analyze this screenshot from a banking app (Sber, T-Bank, Alfa, VTB, Yandex).
+      Analyze this screenshot from a Russian banking app.
       Extract the cashback categories and their percentage values.
       
       The image likely contains a list of categories with percentages (e.g., "1% All purchases", "7% Fast Food").
       
       Identify the Bank Name. Normalize it strictly to one of these values if possible:
-      - "Sber" (Green UI, SberPrime)
-      - "T-Bank" (Yellow/Black UI, Tinkoff)
-      - "Alfa" (Red/White UI, letter A)
-      - "VTB" (Blue UI)
-      - "Yandex" (Yellow/Red/Colorful stripes, Yandex Pay/Bank)
-      - "Other" (if strictly none of the above)
+${describeBanksForPrompt()}
+      - If it is none of the above, use the bank's name as shown in the app; "Other" only if it can't be identified at all
       
       Return a JSON array.
       - bankName: string (Use the normalized names above)
       - category: string (Clean text in Russian, e.g. "Кафе и рестораны", "Такси". Capitalize first letter)
       - percentage: number (The number only, e.g. 7 for 7%. Do not include symbols)
+      - cap: number (Optional. Max cashback in rubles per month for this category if the screen states it, e.g. "до 3000 ₽". Omit otherwise)
+      - currency: string (Optional. What the cashback is paid in if the screen shows it:
+          "rub" for rubles, "spasibo" for СберСпасибо bonuses, "plus" for Yandex Plus points, "points" for other bonus points. Omit if unclear)
+      - kind: string (How the offer works:
+          "selectable" for categories the user picks for the month (e.g. "Выберите 4 категории", "Категории месяца"),
+          "permanent" for offers that are always on, like the base rate "1% на всё" or a card's standing category,
+          "promo" for time-limited partner offers and special promotions ("Акция", "Спецпредложение", "от партнёров", offers with an end date))
+      - validFrom, validUntil: string (Optional. Dates the offer is valid as "YYYY-MM-DD", only if the screen shows them,
+          e.g. "до 31 октября" or "с 1.11 по 30.11". If the year is not shown, assume ${year}. Omit otherwise)
+      - originalText: string (The raw text of the line or tile the offer was read from, exactly as written on the screen)
+      - confidence: number (0 to 1, how sure you are that bank, category and percentage were read correctly)
+      - box: number[] (Bounding box of that line or tile as [ymin, xmin, ymax, xmax], scaled 0-1000 to the image size)
     `;
 
     const mimeType = (file.type && file.type.startsWith('image/')) ? file.type : 'image/jpeg';
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: {
-        parts: [
-          { inlineData: { mimeType: mimeType, data: base64Data } },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              bankName: { type: Type.STRING },
-              category: { type: Type.STRING },
-              percentage: { type: Type.NUMBER }
-            }
-          }
-        }
-      }
-    });
-
-    const text = response.text;
-    if (!text) return [];
-
-    const rawData = JSON.parse(text);
-
-    return rawData.map((item: any) => ({
+    const rawData = asArray(await generateJson({
+      task: 'screenshot',
+      prompt,
+      image: { mimeType, data: base64Data },
+      schema: SCREENSHOT_SCHEMA,
+      signal
+    }));
+
+    // Map the bank's wording to canonical categories so offers from different banks compete
+    return rawData.map((item: any) => applyCanonicalCategory({
       id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      bankName: item.bankName || "Other",
-      category: item.category || "Unknown",
-      percentage: typeof item.percentage === 'number' ? item.percentage : parseFloat(item.percentage) || 0
+      bankName: normalizeBankName(asText(item.bankName)),
+      category: asText(item.category),
+      percentage: asNumber(item.percentage),
+      cap: typeof item.cap === 'number' && item.cap > 0 ? item.cap : undefined,
+      currency: isRewardCurrency(item.currency) ? item.currency : undefined,
+      kind: isEntryKind(item.kind) ? item.kind : undefined,
+      validFrom: isIsoDate(item.validFrom) ? item.validFrom : undefined,
+      validUntil: isIsoDate(item.validUntil) ? item.validUntil : undefined,
+      originalText: typeof item.originalText === 'string' && item.originalText ? item.originalText : undefined,
+      sourceRegion: regionFromModelBox(item.box),
+      confidence: asConfidence(item.confidence)
     }));
 
   } catch (error) {
@@ -0,0 +1,66 @@
+import { MonthSession } from "../types";
+
+const DB_NAME = 'cashback-chooser';
+const DB_VERSION = 1;
+const MONTHS_STORE = 'months';
+
+// "2026-10" style key for the selection month
+export const getMonthKey = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+export const formatMonthKey = (month: string) => {
+  const [year, mon] = month.split('-').map(Number);
+  return new Date(year, mon - 1, 1).toLocaleDateString('ru-RU', { month: 'long', year: 'numeric' });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MONTHS_STORE)) {
+          db.createObjectStore(MONTHS_STORE, { keyPath: 'month' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs a single request inside its own transaction
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(MONTHS_STORE, mode);
+    const request = action(tx.objectStore(MONTHS_STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const loadMonth = async (month: string): Promise<MonthSession | undefined> => {
+  return runRequest('readonly', store => store.get(month) as IDBRequest<MonthSession | undefined>);
+};
+
+export const saveMonth = async (session: MonthSession): Promise<void> => {
+  await runRequest('readwrite', store => store.put({ ...session, updatedAt: Date.now() }));
+};
+
+export const deleteMonth = async (month: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(month));
+};
+
+// All archived months, newest first
+export const listMonths = async (): Promise<MonthSession[]> => {
+  const sessions = await runRequest('readonly', store => store.getAll() as IDBRequest<MonthSession[]>);
+  return sessions.sort((a, b) => b.month.localeCompare(a.month));
+};
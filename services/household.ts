@@ -0,0 +1,71 @@
+import { BankConfig, BankDefinition, CashbackEntry } from "../types";
+import { getBankRegistry, normalizeBankName, toBankConfig } from "./bankRegistry";
+
+const HOUSEHOLD_KEY = 'cashback.household';
+
+// A card is a bank held by a household member: "Sber (Аня)". Without an owner it is just the bank.
+export const cardKey = (bank: string, owner?: string) => (owner ? `${bank} (${owner})` : bank);
+
+export const parseCardKey = (key: string): { bank: string; owner?: string } => {
+  const match = key.match(/^(.+) \(([^()]+)\)$/);
+  return match ? { bank: match[1], owner: match[2] } : { bank: key };
+};
+
+export const entryCardKey = (entry: Pick<CashbackEntry, 'bankName' | 'owner'>, registry: BankDefinition[] = getBankRegistry()) =>
+  cardKey(normalizeBankName(entry.bankName, registry), entry.owner);
+
+export const loadHouseholdMembers = (): string[] => {
+  try {
+    const raw = localStorage.getItem(HOUSEHOLD_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error("Failed to load household:", error);
+    return [];
+  }
+};
+
+export const saveHouseholdMembers = (members: string[]) => {
+  try {
+    localStorage.setItem(HOUSEHOLD_KEY, JSON.stringify(members));
+  } catch (error) {
+    console.error("Failed to save household:", error);
+  }
+};
+
+// A removed card stays as a disabled config: dropping the key would let withDataBanks() re-add it from its entries
+export const removeCardConfig = (config: BankConfig): BankConfig => ({ ...config, enabled: false, removed: true });
+
+export const isCardRemoved = (config: BankConfig | undefined) => !config || config.removed === true;
+
+// Adds or removes one member's card; a new card starts from the bank's registry defaults
+export const toggleCard = (
+  bankConfigs: Record<string, BankConfig>,
+  bank: string,
+  owner: string,
+  registry: BankDefinition[] = getBankRegistry()
+): Record<string, BankConfig> => {
+  const key = cardKey(bank, owner);
+  if (!isCardRemoved(bankConfigs[key])) return { ...bankConfigs, [key]: removeCardConfig(bankConfigs[key]) };
+  const definition = registry.find(b => b.name === bank);
+  const base = bankConfigs[bank] ?? (definition ? toBankConfig(definition) : undefined);
+  return base ? { ...bankConfigs, [key]: { ...base, enabled: true, removed: undefined } } : bankConfigs;
+};
+
+// Removes every card of a member that left the household
+export const removeMemberCards = (bankConfigs: Record<string, BankConfig>, owner: string): Record<string, BankConfig> =>
+  Object.fromEntries(Object.entries(bankConfigs).map(([key, config]) =>
+    [key, parseCardKey(key).owner === owner ? removeCardConfig(config) : config]
+  ));
+
+// Removes a bank's own column and every household card of it
+export const removeBankCards = (bankConfigs: Record<string, BankConfig>, bank: string): Record<string, BankConfig> =>
+  Object.fromEntries(Object.entries(bankConfigs).map(([key, config]) =>
+    [key, parseCardKey(key).bank === bank ? removeCardConfig(config) : config]
+  ));
+
+// Banks a member can hold a card of: the registry plus anything already configured
+export const householdBanks = (bankConfigs: Record<string, BankConfig>, registry: BankDefinition[] = getBankRegistry()) =>
+  Array.from(new Set([
+    ...registry.map(b => b.name),
+    ...Object.keys(bankConfigs).filter(key => !bankConfigs[key].removed).map(key => parseCardKey(key).bank),
+  ]));
@@ -0,0 +1,127 @@
+// Screenshots are shrunk and cropped before parsing, and fingerprinted to catch repeats
+
+// Long side after downscaling: still sharp enough for OCR and vision models, a fraction of a phone capture's size
+const MAX_SIDE = 2000;
+// Scrolling captures are only narrowed; they are cut into tiles later instead of shrunk as a whole
+export const TALL_ASPECT = 2.5;
+const JPEG_QUALITY = 0.85;
+// Phone captures (tall portrait) lose their top strip with the clock, battery and network icons.
+// The bar's height follows the screen width, so scrolling captures don't lose content rows to it.
+const PHONE_ASPECT = 1.7;
+const STATUS_BAR_WIDTH_FRACTION = 0.07;
+// 17x16 thumbnail -> 256-bit dHash; screens of one bank app share a layout, so 64 bits would confuse them
+const HASH_WIDTH = 17;
+const HASH_HEIGHT = 16;
+// Bits that may differ for two captures of the same screen (re-encoding, scaling). Pages of one bank's
+// offer list share a layout and can fall under it too, so a match is only a warning.
+export const NEAR_DUPLICATE_DISTANCE = 10;
+
+export interface ImageFingerprint {
+  hash: string;           // SHA-256 of the original file
+  perceptualHash: string; // 256-bit dHash of the cropped image, hex
+}
+
+export interface PreprocessedImage extends ImageFingerprint {
+  file: File; // What gets parsed and kept as the source
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+export const hashBlob = async (blob: Blob) =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())));
+
+/**
+ * Difference hash: each bit says whether a pixel is brighter than its right neighbour
+ * on a small grayscale thumbnail. Resizing and recompression barely change it.
+ */
+export const differenceHash = (gray: ArrayLike<number>, width = HASH_WIDTH, height = HASH_HEIGHT) => {
+  let bits = '';
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      bits += gray[y * width + x] > gray[y * width + x + 1] ? '1' : '0';
+    }
+  }
+  return bits.match(/.{4}/g)!.map(nibble => parseInt(nibble, 2).toString(16)).join('');
+};
+
+export const hammingDistance = (a: string, b: string) => {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+// The first known image that is the same file
+export const findDuplicate = <T extends Partial<ImageFingerprint>>(fingerprint: ImageFingerprint, known: T[]): T | undefined =>
+  known.find(k => k.hash === fingerprint.hash);
+
+// Known images that look the same without being the same file
+export const findLookalikes = <T extends Partial<ImageFingerprint>>(fingerprint: ImageFingerprint, known: T[]): T[] =>
+  known.filter(k =>
+    k.hash !== fingerprint.hash
+    && k.perceptualHash !== undefined
+    && hammingDistance(k.perceptualHash, fingerprint.perceptualHash) <= NEAR_DUPLICATE_DISTANCE
+  );
+
+const grayscaleThumbnail = (bitmap: ImageBitmap, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray: number[] = [];
+  for (let i = 0; i < data.length; i += 4) gray.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+  return gray;
+};
+
+// Encodes a canvas as a named file; shared by preprocessing, PDF pages and tiles
+export const canvasToFile = (canvas: HTMLCanvasElement, name: string, type: 'image/jpeg' | 'image/png' = 'image/jpeg') =>
+  new Promise<File>((resolve, reject) =>
+    canvas.toBlob(
+      blob => (blob ? resolve(new File([blob], name, { type })) : reject(new Error("Image encoding failed"))),
+      type,
+      type === 'image/jpeg' ? JPEG_QUALITY : undefined
+    )
+  );
+
+/**
+ * Crops the status bar off phone screenshots (scrolling captures are kept whole), downscales to MAX_SIDE (width only for scrolling captures) and re-encodes as JPEG.
+ * The original is kept when it is already small and the re-encoded copy would not be smaller.
+ */
+export const preprocessImage = async (file: File): Promise<PreprocessedImage> => {
+  const hash = await hashBlob(file);
+  const bitmap = await createImageBitmap(file);
+
+  try {
+    const aspect = bitmap.height / bitmap.width;
+    const isTall = aspect > TALL_ASPECT;
+    const isPhoneCapture = aspect >= PHONE_ASPECT && !isTall;
+    const top = isPhoneCapture ? Math.round(bitmap.width * STATUS_BAR_WIDTH_FRACTION) : 0;
+    const cropHeight = bitmap.height - top;
+    const scale = Math.min(1, MAX_SIDE / (isTall ? bitmap.width : Math.max(bitmap.width, cropHeight)));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(cropHeight * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, top, bitmap.width, cropHeight, 0, 0, canvas.width, canvas.height);
+
+    const cropped = await createImageBitmap(canvas);
+    const perceptualHash = differenceHash(grayscaleThumbnail(cropped, HASH_WIDTH, HASH_HEIGHT));
+    cropped.close();
+
+    const unchanged = top === 0 && scale === 1;
+    const jpeg = await canvasToFile(canvas, file.name.replace(/\.\w+$/, '') + '.jpg');
+    const processed = unchanged && jpeg.size >= file.size ? file : jpeg;
+
+    return { file: processed, hash, perceptualHash };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,77 @@
+import { CashbackEntry, SourceRegion } from "../types";
+import { canvasToFile, TALL_ASPECT } from "./imagePreprocess";
+import { normalizeCategoryLabel } from "./categoryCatalog";
+
+// Each tile is about as tall as a phone screen, and neighbours share a strip so no line is cut in half for both
+const TILE_ASPECT = 2;
+const TILE_OVERLAP = 0.15;
+
+export interface ImageTile {
+  file: File;
+  top: number;    // Fraction of the full image height where the tile starts
+  height: number; // Fraction of the full image height the tile covers
+}
+
+// Vertical tile offsets (px) covering the whole height with the given overlap
+export const tileOffsets = (imageHeight: number, tileHeight: number, overlap = TILE_OVERLAP) => {
+  if (imageHeight <= tileHeight) return [0];
+  const step = Math.floor(tileHeight * (1 - overlap));
+  const offsets: number[] = [];
+  for (let top = 0; top + tileHeight < imageHeight; top += step) offsets.push(top);
+  offsets.push(imageHeight - tileHeight);
+  return offsets;
+};
+
+// Short images come back as a single tile covering everything
+export const splitTallImage = async (file: File): Promise<ImageTile[]> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    if (bitmap.height / bitmap.width <= TALL_ASPECT) return [{ file, top: 0, height: 1 }];
+
+    const tileHeight = Math.round(bitmap.width * TILE_ASPECT);
+    const baseName = file.name.replace(/\.\w+$/, '');
+    return await Promise.all(tileOffsets(bitmap.height, tileHeight).map(async (top, idx) => {
+      const canvas = document.createElement('canvas');
+      canvas.width = bitmap.width;
+      canvas.height = tileHeight;
+      canvas.getContext('2d')!.drawImage(bitmap, 0, top, bitmap.width, tileHeight, 0, 0, bitmap.width, tileHeight);
+      return {
+        file: await canvasToFile(canvas, `${baseName} — часть ${idx + 1}.jpg`),
+        top: top / bitmap.height,
+        height: tileHeight / bitmap.height,
+      };
+    }));
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Tile coordinates -> coordinates on the full screenshot
+const toFullRegion = (region: SourceRegion | undefined, tile: ImageTile): SourceRegion | undefined =>
+  region && { ...region, y: tile.top + region.y * tile.height, height: region.height * tile.height };
+
+/**
+ * Merges the offers read from each tile of one screenshot.
+ * Lines in the overlap are read twice, so the same category and % is kept once (the surer reading).
+ * Lower tiles often don't show the bank's header; they take the bank the other tiles agreed on.
+ */
+export const mergeTileResults = (results: { tile: ImageTile; entries: CashbackEntry[] }[]): CashbackEntry[] => {
+  const all = results.flatMap(({ tile, entries }) =>
+    entries.map(entry => ({ ...entry, sourceRegion: toFullRegion(entry.sourceRegion, tile) }))
+  );
+
+  const bankVotes = new Map<string, number>();
+  all.forEach(entry => {
+    if (entry.bankName && entry.bankName !== 'Other') bankVotes.set(entry.bankName, (bankVotes.get(entry.bankName) ?? 0) + 1);
+  });
+  const mainBank = Array.from(bankVotes.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  const unique = new Map<string, CashbackEntry>();
+  all.forEach(entry => {
+    const withBank = !entry.bankName || entry.bankName === 'Other' ? { ...entry, bankName: mainBank ?? entry.bankName } : entry;
+    const key = `${normalizeCategoryLabel(withBank.category)}|${withBank.percentage}`;
+    const existing = unique.get(key);
+    if (!existing || (withBank.confidence ?? 1) > (existing.confidence ?? 1)) unique.set(key, withBank);
+  });
+  return Array.from(unique.values());
+};
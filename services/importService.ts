@@ -0,0 +1,154 @@
+import { BankConfig, CashbackEntry, SpendingProfile } from "../types";
+import { applyCanonicalCategory } from "./categoryCatalog";
+import { ENTRY_COLUMNS, SNAPSHOT_FORMAT, SessionSnapshot } from "./exportService";
+import { parseCsv } from "./csv";
+import { isRewardCurrency } from "./rewards";
+import { isEntryKind } from "./entryKinds";
+import { isIsoDate } from "./validity";
+import { rowKeyOf } from "./matrix";
+import { entryCardKey } from "./household";
+
+export type ImportMode = 'restore' | 'merge';
+
+export interface ImportResult {
+  entries: CashbackEntry[];
+  bankConfigs?: Record<string, BankConfig>; // Only JSON snapshots carry settings
+  spendingProfile?: SpendingProfile;
+  isSnapshot: boolean; // Snapshot entries are taken as-is, CSV rows and bare JSON arrays still need validation
+}
+
+const newId = () => `import-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const isSnapshot = (value: any): value is SessionSnapshot =>
+  value && value.format === SNAPSHOT_FORMAT && Array.isArray(value.entries);
+
+// Anything else in a JSON file would crash the matrix, so the whole file is rejected
+const isEntryShape = (value: any): value is CashbackEntry =>
+  value !== null
+  && typeof value === 'object'
+  && typeof value.bankName === 'string'
+  && typeof value.category === 'string'
+  && typeof value.percentage === 'number'
+  && Number.isFinite(value.percentage);
+
+const checkEntries = (entries: unknown[]): CashbackEntry[] => {
+  if (!entries.every(isEntryShape)) throw new Error("В файле есть записи без банка, категории или процента");
+  return (entries as CashbackEntry[]).map(entry => (typeof entry.id === 'string' ? entry : { ...entry, id: newId() }));
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isOptionalNumber = (value: unknown) => value === undefined || (typeof value === 'number' && Number.isFinite(value));
+
+const isBankConfigShape = (value: unknown): value is BankConfig =>
+  isRecord(value)
+  && typeof value.enabled === 'boolean'
+  && typeof value.limit === 'number'
+  && Number.isFinite(value.limit)
+  && isOptionalNumber(value.monthlyCap)
+  && isOptionalNumber(value.categoryCap)
+  && isOptionalNumber(value.pointValue)
+  && (value.currency === undefined || isRewardCurrency(value.currency))
+  && (value.removed === undefined || typeof value.removed === 'boolean');
+
+// Settings go straight into state like the entries, so they are checked just as strictly
+const checkBankConfigs = (value: unknown): Record<string, BankConfig> | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value) || !Object.values(value).every(isBankConfigShape)) {
+    throw new Error("В файле есть настройки банков без лимита или признака включения");
+  }
+  return value;
+};
+
+const checkSpendingProfile = (value: unknown): SpendingProfile | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value) || !Object.values(value).every(v => typeof v === 'number' && Number.isFinite(v) && v >= 0)) {
+    throw new Error("В файле есть траты по категориям не в виде суммы");
+  }
+  return value;
+};
+
+const parseJsonFile = (text: string): ImportResult => {
+  const parsed = JSON.parse(text);
+  // A bare array of entries is accepted as well, but validated like CSV rows
+  if (Array.isArray(parsed)) return { entries: checkEntries(parsed), isSnapshot: false };
+  if (!isSnapshot(parsed)) throw new Error("Файл не похож на экспорт кэшбэка");
+  return {
+    entries: checkEntries(parsed.entries),
+    bankConfigs: checkBankConfigs(parsed.bankConfigs),
+    spendingProfile: checkSpendingProfile(parsed.spendingProfile),
+    isSnapshot: true,
+  };
+};
+
+const parseCsvFile = (text: string): ImportResult => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { entries: [], isSnapshot: false };
+
+  // Column order doesn't matter; headers may be our labels or the field names
+  const columnIndex = new Map<keyof CashbackEntry, number>();
+  header.forEach((title, idx) => {
+    const normalized = title.trim().toLowerCase();
+    const column = ENTRY_COLUMNS.find(c => c.label.toLowerCase() === normalized || c.key.toLowerCase() === normalized);
+    if (column) columnIndex.set(column.key, idx);
+  });
+  if (!columnIndex.has('bankName') || !columnIndex.has('category') || !columnIndex.has('percentage')) {
+    throw new Error("В CSV нужны колонки «Банк», «Категория» и «Процент»");
+  }
+
+  const field = (row: string[], key: keyof CashbackEntry) => {
+    const idx = columnIndex.get(key);
+    return idx === undefined ? '' : (row[idx] ?? '').trim();
+  };
+  const number = (value: string) => (value ? parseFloat(value.replace(',', '.').replace('%', '')) : undefined);
+
+  const entries = rows.map(row => {
+    const selection = field(row, 'selection');
+    const currency = field(row, 'currency');
+    const kind = field(row, 'kind');
+    const validFrom = field(row, 'validFrom');
+    const validUntil = field(row, 'validUntil');
+    return applyCanonicalCategory({
+      id: newId(),
+      bankName: field(row, 'bankName'),
+      category: field(row, 'category'),
+      rawCategory: field(row, 'rawCategory') || undefined,
+      percentage: number(field(row, 'percentage')) ?? NaN,
+      cap: number(field(row, 'cap')),
+      currency: isRewardCurrency(currency) ? currency : undefined,
+      kind: isEntryKind(kind) ? kind : undefined,
+      validFrom: isIsoDate(validFrom) ? validFrom : undefined,
+      validUntil: isIsoDate(validUntil) ? validUntil : undefined,
+      selection: selection === 'forced' || selection === 'excluded' ? selection : undefined,
+      originalText: field(row, 'originalText') || undefined,
+      owner: field(row, 'owner') || undefined,
+    });
+  });
+
+  return { entries, isSnapshot: false };
+};
+
+export const parseImportFile = async (file: File): Promise<ImportResult> => {
+  const text = await file.text();
+  const isJson = file.name.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{') || text.trimStart().startsWith('[');
+  return isJson ? parseJsonFile(text) : parseCsvFile(text);
+};
+
+// Same card, category and % counts as the same offer when merging
+const offerKey = (entry: CashbackEntry) => `${entryCardKey(entry)}|${rowKeyOf(entry)}|${entry.percentage}`;
+
+export const mergeEntries = (current: CashbackEntry[], imported: CashbackEntry[]): CashbackEntry[] => {
+  const existing = new Set(current.map(offerKey));
+  const ids = new Set(current.map(e => e.id));
+  const added = imported
+    .filter(entry => !existing.has(offerKey(entry)))
+    .map(entry => (ids.has(entry.id) ? { ...entry, id: newId() } : entry));
+  return [...current, ...added];
+};
+
+// Merging keeps the user's settings and only adds banks they don't have yet
+export const mergeBankConfigs = (
+  current: Record<string, BankConfig>,
+  imported: Record<string, BankConfig> = {}
+): Record<string, BankConfig> => ({ ...imported, ...current });
@@ -0,0 +1,107 @@
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import type { TextItem, TextMarkedContent } from "pdfjs-dist/types/src/display/api";
+import type { OcrLine } from "./ocrService";
+import { regionFromPixels } from "./sourceImages";
+import { canvasToFile } from "./imagePreprocess";
+
+// A PDF statement rarely has more offer pages than this; the rest is terms and conditions
+const MAX_PDF_PAGES = 10;
+// Pages are rendered at twice their nominal size so small print stays readable
+const PDF_RENDER_SCALE = 2;
+
+// One image to parse; PDF pages may come with the text they already contain
+export interface DecodedImage {
+  file: File;
+  textLines?: OcrLine[];
+}
+
+const extensionOf = (file: File) => file.name.toLowerCase().split('.').pop() ?? '';
+
+export const isHeic = (file: File) =>
+  /image\/hei[cf]/.test(file.type) || ['heic', 'heif'].includes(extensionOf(file));
+
+export const isPdf = (file: File) => file.type === 'application/pdf' || extensionOf(file) === 'pdf';
+
+export const isSupportedInput = (file: File) => file.type.startsWith('image/') || isHeic(file) || isPdf(file);
+
+// For the file picker's accept attribute
+export const SUPPORTED_INPUT_ACCEPT = 'image/*,.heic,.heif,application/pdf,.pdf';
+
+const baseName = (file: File) => file.name.replace(/\.\w+$/, '');
+
+// Browsers other than Safari can't draw HEIC, so it is converted to JPEG first (the decoder is large, hence lazy)
+const decodeHeic = async (file: File): Promise<File> => {
+  const { default: heic2any } = await import('heic2any');
+  const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.9 });
+  const blob = Array.isArray(converted) ? converted[0] : converted;
+  return new File([blob], `${baseName(file)}.jpg`, { type: 'image/jpeg' });
+};
+
+// Text items on one baseline become one line, positioned like OCR lines
+const textLayerLines = (items: (TextItem | TextMarkedContent)[], width: number, height: number): OcrLine[] => {
+  const rows = new Map<number, { x: number; y: number; right: number; top: number; text: string }[]>();
+  items.forEach(item => {
+    // Marked-content markers carry no text
+    if (!('str' in item) || !item.str.trim()) return;
+    const [, , , , x, baseline] = item.transform;
+    const itemHeight = item.height || Math.abs(item.transform[3]);
+    const key = Math.round(baseline / 2);
+    const row = rows.get(key) ?? [];
+    row.push({ x, y: height - baseline, right: x + item.width, top: height - baseline - itemHeight, text: item.str });
+    rows.set(key, row);
+  });
+
+  return Array.from(rows.values())
+    .sort((a, b) => a[0].y - b[0].y)
+    .map(row => {
+      const sorted = row.sort((a, b) => a.x - b.x);
+      return {
+        text: sorted.map(part => part.text).join(' ').replace(/\s+/g, ' ').trim(),
+        region: regionFromPixels({
+          x0: sorted[0].x,
+          y0: Math.min(...sorted.map(p => p.top)),
+          x1: Math.max(...sorted.map(p => p.right)),
+          y1: Math.max(...sorted.map(p => p.y)),
+        }, width, height),
+      };
+    });
+};
+
+// Every page is rendered for the source preview; its text layer, if any, is passed along
+const decodePdf = async (file: File): Promise<DecodedImage[]> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+  const pages: DecodedImage[] = [];
+  try {
+    for (let n = 1; n <= Math.min(pdf.numPages, MAX_PDF_PAGES); n++) {
+      const page = await pdf.getPage(n);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      const textLines = textLayerLines(content.items, viewport.width, viewport.height);
+
+      const renderViewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(renderViewport.width);
+      canvas.height = Math.ceil(renderViewport.height);
+      await page.render({ canvas, canvasContext: canvas.getContext('2d')!, viewport: renderViewport }).promise;
+
+      pages.push({
+        file: await canvasToFile(canvas, `${baseName(file)} — стр. ${n}.png`, 'image/png'),
+        textLines: textLines.length > 0 ? textLines : undefined,
+      });
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+};
+
+// Turns whatever was uploaded into images the parser understands
+export const decodeInput = async (file: File): Promise<DecodedImage[]> => {
+  if (isPdf(file)) return decodePdf(file);
+  if (isHeic(file)) return [{ file: await decodeHeic(file) }];
+  return [{ file }];
+};
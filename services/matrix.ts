@@ -0,0 +1,227 @@
+import { BankConfig, BankDefinition, CashbackEntry, EntryKind, RewardCurrency, SpendingProfile } from "../types";
+import { optimizeSelection, OptimizationResult, SpendAllocation } from "./optimizer";
+import { getSpend } from "./spendingProfile";
+import { getBankRegistry, toBankConfig } from "./bankRegistry";
+import { entryCardKey, parseCardKey } from "./household";
+import { formatReward, getBankRubValue, getEffectivePercentage, getEntryCurrency } from "./rewards";
+import { getEntryKind, isBaseRate } from "./entryKinds";
+import { evaluationDate, getValidityStatus, isExpiringSoon, ValidityStatus } from "./validity";
+
+export interface MatrixCell {
+  bank: string;
+  percentage?: number;          // As the bank shows it
+  effectivePercentage?: number; // Converted to ₽ value
+  currency?: RewardCurrency;
+  isSelected: boolean; // Picked for a slot, or an offer that needs no picking
+  isWinner: boolean;
+  expected?: number;
+  isCapped: boolean;   // Expected ₽ was cut by a cashback cap
+  cap?: number;        // Max ₽ of cashback per month here, when the offer or card has one
+  selection?: CashbackEntry['selection'];
+  kind?: EntryKind;
+  isFallback?: boolean; // No offer of its own: the spend earns the bank's base rate
+  validity?: ValidityStatus; // Expired and upcoming offers are shown but not chosen
+  validUntil?: string;
+  expiresSoon?: boolean;
+}
+
+export interface MatrixRow {
+  key: string; // Same as rowKeyOf() for the entries in the row
+  name: string;
+  categoryId?: string;
+  spend: number;
+  allocation: SpendAllocation[];
+  values: MatrixCell[];
+}
+
+export interface CashbackMatrix {
+  matrix: MatrixRow[];
+  targetBanks: string[];
+  totalExpected: number;
+  optimization: OptimizationResult;
+}
+
+// Used for banks that only appear in the data (added by hand or recognized but not configured)
+export const FALLBACK_BANK_CONFIG: BankConfig = { enabled: true, limit: 5, color: 'text-slate-300 border-slate-500/30' };
+
+export const formatRub = (value: number) => `${Math.round(value).toLocaleString('ru-RU')} ₽`;
+
+// A cell's rate as shown to the user, e.g. "5%" or "7% Спасибо (≈5.6% ₽)"
+export const describeCell = (cell: MatrixCell) => formatReward(cell.percentage ?? 0, cell.currency, cell.effectivePercentage);
+
+// Canonical ID merges synonyms across banks ("Кафе" / "Рестораны")
+export const rowKeyOf = (entry: Pick<CashbackEntry, 'category' | 'categoryId'>) =>
+  entry.categoryId ?? entry.category.trim().toLowerCase();
+
+// Configured cards plus any other card found in the data (registry defaults when it is a known bank)
+export const withDataBanks = (
+  data: CashbackEntry[],
+  bankConfigs: Record<string, BankConfig>,
+  registry: BankDefinition[] = getBankRegistry()
+) => {
+  const configs = { ...bankConfigs };
+  data.forEach(entry => {
+    const key = entryCardKey(entry, registry);
+    const { bank } = parseCardKey(key);
+    if (!bank || bank === 'Other' || configs[key]) return;
+    const known = registry.find(b => b.name === bank);
+    configs[key] = known ? toBankConfig(known) : FALLBACK_BANK_CONFIG;
+  });
+  return configs;
+};
+
+export const buildMatrix = (
+  data: CashbackEntry[],
+  bankConfigs: Record<string, BankConfig>,
+  spendingProfile: SpendingProfile,
+  month?: string // Selection month; without it every entry counts as valid
+): CashbackMatrix => {
+  const registry = getBankRegistry();
+  const asOf = month ? evaluationDate(month) : undefined;
+  const isActive = (entry: CashbackEntry) => !month || getValidityStatus(entry, month, asOf) === 'active';
+  bankConfigs = withDataBanks(data, bankConfigs, registry);
+  // Determine active banks based on config
+  const activeBanks = Object.keys(bankConfigs).filter(b => bankConfigs[b].enabled);
+
+  // 1. Group by Bank -> Category to remove duplicates (keep the max ₽ value, valid offers first)
+  const uniqueEntries = new Map<string, CashbackEntry>();
+  const effectiveOf = (entry: CashbackEntry) => getEffectivePercentage(entry, bankConfigs[entryCardKey(entry, registry)]);
+
+  data.forEach(entry => {
+    const normCat = rowKeyOf(entry);
+    // Each household member's card is a column of its own ("Sber (Аня)")
+    const normBank = entryCardKey(entry, registry);
+
+    const key = `${normBank}|${normCat}`;
+    const existing = uniqueEntries.get(key);
+
+    const better = !existing
+      || (isActive(entry) && !isActive(existing))
+      || (isActive(entry) === isActive(existing) && effectiveOf(entry) > effectiveOf(existing));
+    if (better) {
+      uniqueEntries.set(key, { ...entry, bankName: normBank, category: entry.category.trim() });
+    }
+  });
+
+  const cleanData = Array.from(uniqueEntries.values());
+  const validData = cleanData.filter(isActive);
+
+  // 2. Choose categories jointly across all active banks, comparing ₽ value (points and caps converted)
+  const limits: Record<string, number> = {};
+  const monthlyCaps: Record<string, number> = {};
+  const categoryCaps: Record<string, number> = {};
+  activeBanks.forEach(bank => {
+    const config = bankConfigs[bank];
+    const rate = getBankRubValue(config);
+    limits[bank] = config?.limit ?? 5;
+    if (config?.monthlyCap !== undefined) monthlyCaps[bank] = config.monthlyCap * rate;
+    if (config?.categoryCap !== undefined) categoryCaps[bank] = config.categoryCap * rate;
+  });
+  const spending: Record<string, number> = {};
+  cleanData.forEach(d => {
+    spending[d.category] = getSpend(spendingProfile, d.category);
+  });
+  const rubEntries = validData.map(d => {
+    const effective = effectiveOf(d);
+    const rate = d.percentage > 0 ? effective / d.percentage : 1;
+    return { ...d, percentage: effective, cap: d.cap !== undefined ? d.cap * rate : undefined };
+  });
+  const optimization = optimizeSelection({ entries: rubEntries, limits, spending, monthlyCaps, categoryCaps });
+
+  // 3. Build Matrix Rows (Unique Categories)
+  // Only include categories that exist in the active banks
+  const relevantData = cleanData.filter(d => activeBanks.includes(d.bankName));
+  const allCategories = Array.from(new Set(relevantData.map(d => d.category)));
+  // Rank rows by the best expected ₽ any active card gives
+  const bestExpected = (cat: string) => Math.max(0, ...Object.values(optimization.expected[cat] || {}));
+  allCategories.sort((a, b) => bestExpected(b) - bestExpected(a) || a.localeCompare(b));
+
+  // Create a lookup map for the grid
+  const matrixMap = new Map<string, CashbackEntry>();
+  const categoryIds = new Map<string, string>();
+  cleanData.forEach(d => {
+    matrixMap.set(`${d.bankName}|${d.category}`, d);
+    if (d.categoryId) categoryIds.set(d.category, d.categoryId);
+  });
+  const baseRates = new Map<string, CashbackEntry>();
+  validData.forEach(d => {
+    const current = baseRates.get(d.bankName);
+    if (isBaseRate(d) && d.selection !== 'excluded' && (!current || effectiveOf(d) > effectiveOf(current))) baseRates.set(d.bankName, d);
+  });
+
+  return {
+    matrix: allCategories.map(cat => ({
+      key: rowKeyOf({ category: cat, categoryId: categoryIds.get(cat) }),
+      name: cat,
+      categoryId: categoryIds.get(cat),
+      spend: spending[cat],
+      allocation: optimization.allocation[cat] ?? [],
+      values: activeBanks.map(bank => {
+        const isWinner = optimization.winners[cat] === bank;
+        const own = matrixMap.get(`${bank}|${cat}`);
+        // Spend routed to a bank without an offer here earns its base rate
+        const routed = optimization.allocation[cat]?.find(a => a.bank === bank);
+        const fallback = !own && routed ? baseRates.get(bank) : undefined;
+        const entry = own ?? fallback;
+        const effective = entry ? effectiveOf(entry) : undefined;
+        const currency = entry ? getEntryCurrency(entry, bankConfigs[bank]) : undefined;
+        const isSelected = fallback !== undefined
+          || optimization.assignments[bank]?.includes(cat)
+          || optimization.alwaysOn[bank]?.includes(cat)
+          || false;
+        const expected = fallback ? routed!.cashback : optimization.expected[cat]?.[bank];
+        const isCapped = effective !== undefined && expected !== undefined && expected < (spending[cat] * effective) / 100 - 0.01;
+        const offerCap = entry?.cap !== undefined && entry.percentage > 0 ? (entry.cap * effective!) / entry.percentage : undefined;
+        const caps = [offerCap, categoryCaps[bank]].filter((c): c is number => c !== undefined);
+        return {
+          bank,
+          percentage: entry?.percentage,
+          effectivePercentage: effective,
+          currency,
+          isSelected,
+          isWinner,
+          expected,
+          isCapped,
+          cap: caps.length > 0 ? Math.min(...caps) : undefined,
+          selection: own?.selection,
+          kind: own ? getEntryKind(own) : undefined,
+          isFallback: fallback !== undefined,
+          validity: own && month ? getValidityStatus(own, month, asOf) : undefined,
+          validUntil: own?.validUntil,
+          expiresSoon: own && asOf ? isExpiringSoon(own, asOf) : false,
+        };
+      })
+    })),
+    targetBanks: activeBanks,
+    totalExpected: optimization.total,
+    optimization
+  };
+};
+
+export interface CardRecommendation {
+  row?: MatrixRow;
+  best?: MatrixCell;          // Selected card with the highest % in the category
+  alternatives: MatrixCell[]; // Other offers for the category, best first
+  baseRate?: MatrixCell;      // Best "Все покупки" offer as a fallback
+  overflow: SpendAllocation[]; // Where the spend goes once the best card hits its cap
+}
+
+const byPercentage = (a: MatrixCell, b: MatrixCell) => (b.effectivePercentage ?? 0) - (a.effectivePercentage ?? 0);
+
+// Answers "which card do I pay with" for a canonical category using the current matrix
+export const recommendCard = ({ matrix }: CashbackMatrix, categoryId: string | undefined): CardRecommendation => {
+  const row = categoryId ? matrix.find(r => r.categoryId === categoryId) : undefined;
+  const offers = (row?.values ?? []).filter(v => v.percentage !== undefined).sort(byPercentage);
+  const best = offers.find(v => v.isWinner) ?? offers.find(v => v.isSelected);
+
+  const baseRow = matrix.find(r => r.categoryId === 'everything');
+  const baseRate = (baseRow?.values ?? []).filter(v => v.percentage !== undefined).sort(byPercentage)[0];
+
+  return {
+    row,
+    best,
+    alternatives: offers.filter(v => v !== best),
+    baseRate,
+    overflow: row?.allocation.filter(a => a.bank !== best?.bank) ?? [],
+  };
+};
@@ -0,0 +1,77 @@
+import { CashbackEntry, EntryKind } from "../types";
+import { applyCanonicalCategory } from "./categoryCatalog";
+import { rowKeyOf } from "./matrix";
+import { normalizeBankName } from "./bankRegistry";
+import { entryCardKey, parseCardKey } from "./household";
+
+// A matrix cell maps to every entry of that card in that row (duplicates are merged only for display)
+const inCell = (entry: CashbackEntry, card: string, rowKey: string) =>
+  entryCardKey(entry) === card && rowKeyOf(entry) === rowKey;
+
+export const entriesInCell = (data: CashbackEntry[], bank: string, rowKey: string) =>
+  data.filter(e => inCell(e, bank, rowKey));
+
+// `card` is a matrix column: a bank, optionally with its owner ("Sber (Аня)")
+const manualEntry = (card: string, category: string, percentage: number): CashbackEntry => {
+  const { bank, owner } = parseCardKey(card.trim());
+  return applyCanonicalCategory({
+    id: `manual-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    bankName: normalizeBankName(bank),
+    owner,
+    category: category.trim(),
+    percentage,
+    originalText: "Added manually"
+  });
+};
+
+export const setCellPercentage = (
+  data: CashbackEntry[],
+  bank: string,
+  row: { key: string; name: string },
+  percentage: number
+): CashbackEntry[] => {
+  if (!data.some(e => inCell(e, bank, row.key))) {
+    return [...data, manualEntry(bank, row.name, percentage)];
+  }
+  return data.map(e => (inCell(e, bank, row.key) ? { ...e, percentage } : e));
+};
+
+export const clearCell = (data: CashbackEntry[], bank: string, rowKey: string): CashbackEntry[] =>
+  data.filter(e => !inCell(e, bank, rowKey));
+
+export const setCellSelection = (
+  data: CashbackEntry[],
+  bank: string,
+  rowKey: string,
+  selection: CashbackEntry['selection']
+): CashbackEntry[] =>
+  data.map(e => (inCell(e, bank, rowKey) ? { ...e, selection } : e));
+
+export const setCellKind = (data: CashbackEntry[], bank: string, rowKey: string, kind: EntryKind): CashbackEntry[] =>
+  data.map(e => (inCell(e, bank, rowKey) ? { ...e, kind } : e));
+
+// Empty dates fall back to the selection month
+export const setCellValidity = (
+  data: CashbackEntry[],
+  bank: string,
+  rowKey: string,
+  validFrom: string | undefined,
+  validUntil: string | undefined
+): CashbackEntry[] =>
+  data.map(e => (inCell(e, bank, rowKey) ? { ...e, validFrom, validUntil } : e));
+
+// The new name is the user's wording, so it is mapped to a canonical category again
+export const renameRow = (data: CashbackEntry[], rowKey: string, name: string): CashbackEntry[] =>
+  data.map(e => (rowKeyOf(e) === rowKey ? applyCanonicalCategory({ ...e, category: name, rawCategory: undefined }) : e));
+
+// Moves all offers of one row into another; the matrix then keeps the best offer per bank
+export const mergeRows = (
+  data: CashbackEntry[],
+  fromKey: string,
+  into: { name: string; categoryId?: string }
+): CashbackEntry[] =>
+  data.map(e => (rowKeyOf(e) === fromKey ? { ...e, category: into.name, categoryId: into.categoryId } : e));
+
+// A new bank or category name simply becomes a new column or row
+export const addOffer = (data: CashbackEntry[], bankName: string, category: string, percentage: number): CashbackEntry[] =>
+  [...data, manualEntry(bankName, category, percentage)];
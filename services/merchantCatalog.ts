@@ -0,0 +1,114 @@
+import { MerchantDefinition } from "../types";
+import { findCategoryByMcc, getCategoryById, normalizeCategoryLabel } from "./categoryCatalog";
+
+const CUSTOM_MERCHANTS_KEY = 'cashback.customMerchants';
+
+// Bundled merchant -> MCC -> canonical category dataset. Users can extend it from the lookup view.
+export const MERCHANT_CATALOG: MerchantDefinition[] = [
+  { name: 'Пятёрочка', aliases: ['pyaterochka', '5ka', 'пятерочка'], mcc: '5411', categoryId: 'groceries' },
+  { name: 'Перекрёсток', aliases: ['perekrestok', 'перекресток'], mcc: '5411', categoryId: 'groceries' },
+  { name: 'Магнит', aliases: ['magnit'], mcc: '5411', categoryId: 'groceries' },
+  { name: 'ВкусВилл', aliases: ['vkusvill', 'вкус вилл'], mcc: '5411', categoryId: 'groceries' },
+  { name: 'Лента', aliases: ['lenta'], mcc: '5411', categoryId: 'groceries' },
+  { name: 'Ашан', aliases: ['auchan'], mcc: '5411', categoryId: 'groceries' },
+  { name: 'Азбука вкуса', aliases: ['azbuka vkusa'], mcc: '5411', categoryId: 'groceries' },
+  { name: 'Самокат', aliases: ['samokat'], mcc: '5411', categoryId: 'groceries' },
+  { name: 'Яндекс Лавка', aliases: ['yandex lavka', 'лавка'], mcc: '5411', categoryId: 'groceries' },
+  { name: 'Яндекс Go', aliases: ['yandex go', 'яндекс такси', 'yandex taxi', 'yandex.taxi'], mcc: '4121', categoryId: 'taxi' },
+  { name: 'Ситидрайв', aliases: ['citydrive'], mcc: '7512', categoryId: 'transport' },
+  { name: 'Московский метрополитен', aliases: ['метро', 'metro moscow', 'тройка'], mcc: '4111', categoryId: 'transport' },
+  { name: 'РЖД', aliases: ['rzd', 'ржд билеты'], mcc: '4112', categoryId: 'transport' },
+  { name: 'Вкусно — и точка', aliases: ['вкусно и точка', 'макдоналдс', 'mcdonalds'], mcc: '5814', categoryId: 'fastfood' },
+  { name: "Rostic's", aliases: ['kfc', 'ростикс'], mcc: '5814', categoryId: 'fastfood' },
+  { name: 'Бургер Кинг', aliases: ['burger king'], mcc: '5814', categoryId: 'fastfood' },
+  { name: 'Додо Пицца', aliases: ['dodo pizza', 'додо'], mcc: '5814', categoryId: 'fastfood' },
+  { name: 'Теремок', aliases: ['teremok'], mcc: '5814', categoryId: 'fastfood' },
+  { name: 'Шоколадница', aliases: ['shokoladnitsa'], mcc: '5812', categoryId: 'restaurants' },
+  { name: 'Кофемания', aliases: ['coffeemania'], mcc: '5812', categoryId: 'restaurants' },
+  { name: 'Лукойл', aliases: ['lukoil'], mcc: '5541', categoryId: 'fuel' },
+  { name: 'Газпромнефть', aliases: ['gazpromneft', 'газпром нефть'], mcc: '5541', categoryId: 'fuel' },
+  { name: 'Роснефть', aliases: ['rosneft'], mcc: '5541', categoryId: 'fuel' },
+  { name: 'Татнефть', aliases: ['tatneft'], mcc: '5541', categoryId: 'fuel' },
+  { name: 'М.Видео', aliases: ['mvideo', 'м видео', 'мвидео'], mcc: '5732', categoryId: 'electronics' },
+  { name: 'Эльдорадо', aliases: ['eldorado'], mcc: '5732', categoryId: 'electronics' },
+  { name: 'DNS', aliases: ['днс', 'dns-shop'], mcc: '5732', categoryId: 'electronics' },
+  { name: 'Ситилинк', aliases: ['citilink'], mcc: '5732', categoryId: 'electronics' },
+  { name: 'Леруа Мерлен', aliases: ['leroy merlin', 'лемана про', 'lemana pro'], mcc: '5200', categoryId: 'home' },
+  { name: 'OBI', aliases: ['оби'], mcc: '5200', categoryId: 'home' },
+  { name: 'Hoff', aliases: ['хофф'], mcc: '5712', categoryId: 'home' },
+  { name: 'Спортмастер', aliases: ['sportmaster'], mcc: '5941', categoryId: 'sport' },
+  { name: 'Ozon', aliases: ['озон'], mcc: '5399', categoryId: 'marketplaces' },
+  { name: 'Wildberries', aliases: ['вайлдберриз', 'wb', 'вб'], mcc: '5399', categoryId: 'marketplaces' },
+  { name: 'Яндекс Маркет', aliases: ['yandex market'], mcc: '5399', categoryId: 'marketplaces' },
+  { name: 'Ригла', aliases: ['rigla'], mcc: '5912', categoryId: 'pharmacy' },
+  { name: 'Аптека 36,6', aliases: ['36.6', '36,6'], mcc: '5912', categoryId: 'pharmacy' },
+  { name: 'Горздрав', aliases: ['gorzdrav'], mcc: '5912', categoryId: 'pharmacy' },
+  { name: 'Золотое Яблоко', aliases: ['goldapple', 'gold apple'], mcc: '5977', categoryId: 'beauty' },
+  { name: 'Л’Этуаль', aliases: ['летуаль', 'letu', "l'etoile"], mcc: '5977', categoryId: 'beauty' },
+  { name: 'Детский мир', aliases: ['detmir', 'детмир'], mcc: '5641', categoryId: 'kids' },
+  { name: 'Четыре лапы', aliases: ['4 лапы', '4lapy'], mcc: '5995', categoryId: 'pets' },
+  { name: 'Читай-город', aliases: ['chitai-gorod', 'читай город'], mcc: '5942', categoryId: 'books' },
+  { name: 'Кинопоиск', aliases: ['kinopoisk'], mcc: '5815', categoryId: 'digital' },
+  { name: 'Okko', aliases: ['окко'], mcc: '5815', categoryId: 'digital' },
+  { name: 'Каро', aliases: ['karo', 'каро фильм'], mcc: '7832', categoryId: 'cinema' },
+  { name: 'Синема Парк', aliases: ['cinema park', 'формула кино'], mcc: '7832', categoryId: 'cinema' },
+  { name: 'Аэрофлот', aliases: ['aeroflot'], mcc: '4511', categoryId: 'travel' },
+  { name: 'Островок', aliases: ['ostrovok'], mcc: '4722', categoryId: 'travel' },
+  { name: 'МТС', aliases: ['mts'], mcc: '4814', categoryId: 'telecom' },
+  { name: 'Билайн', aliases: ['beeline'], mcc: '4814', categoryId: 'telecom' },
+  { name: 'МегаФон', aliases: ['megafon'], mcc: '4814', categoryId: 'telecom' },
+];
+
+export const loadCustomMerchants = (): MerchantDefinition[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_MERCHANTS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error("Failed to load custom merchants:", error);
+    return [];
+  }
+};
+
+export const saveCustomMerchants = (merchants: MerchantDefinition[]) => {
+  try {
+    localStorage.setItem(CUSTOM_MERCHANTS_KEY, JSON.stringify(merchants));
+  } catch (error) {
+    console.error("Failed to save custom merchants:", error);
+  }
+};
+
+// User entries win over bundled ones with the same name
+export const getMerchantCatalog = (custom: MerchantDefinition[] = loadCustomMerchants()): MerchantDefinition[] => {
+  const customNames = new Set(custom.map(m => normalizeCategoryLabel(m.name)));
+  return [...custom, ...MERCHANT_CATALOG.filter(m => !customNames.has(normalizeCategoryLabel(m.name)))];
+};
+
+export const findMerchant = (query: string, catalog: MerchantDefinition[] = getMerchantCatalog()): MerchantDefinition | undefined => {
+  const norm = normalizeCategoryLabel(query);
+  if (!norm) return undefined;
+  const names = (m: MerchantDefinition) => [m.name, ...m.aliases].map(normalizeCategoryLabel);
+
+  // 1. Exact name or alias, 2. query contains a name ("оплата в пятерочке 123"), 3. name starts with query
+  return catalog.find(m => names(m).includes(norm))
+    ?? catalog.find(m => names(m).some(n => n.length >= 3 && norm.includes(n)))
+    ?? (norm.length >= 3 ? catalog.find(m => names(m).some(n => n.startsWith(norm))) : undefined);
+};
+
+export interface MerchantResolution {
+  merchant?: MerchantDefinition;
+  mcc?: string;
+  categoryId?: string;
+}
+
+// Accepts either a 4-digit MCC code or a merchant name
+export const resolveMerchantQuery = (query: string, catalog: MerchantDefinition[] = getMerchantCatalog()): MerchantResolution => {
+  const trimmed = query.trim();
+  if (/^\d{4}$/.test(trimmed)) {
+    return { mcc: trimmed, categoryId: findCategoryByMcc(trimmed)?.id };
+  }
+
+  const merchant = findMerchant(trimmed, catalog);
+  if (!merchant) return {};
+  const categoryId = getCategoryById(merchant.categoryId)?.id ?? (merchant.mcc ? findCategoryByMcc(merchant.mcc)?.id : undefined);
+  return { merchant, mcc: merchant.mcc, categoryId };
+};
@@ -0,0 +1,56 @@
+import { CashbackEntry } from "../types";
+import { rowKeyOf } from "./matrix";
+import { entryCardKey } from "./household";
+
+export type ChangeKind = 'added' | 'removed' | 'raised' | 'lowered';
+
+export interface OfferChange {
+  kind: ChangeKind;
+  bank: string;
+  category: string;
+  previous?: number;
+  current?: number;
+}
+
+// Best % per bank+category, keyed the same way the matrix merges rows
+const indexOffers = (entries: CashbackEntry[]) => {
+  const offers = new Map<string, { bank: string; category: string; percentage: number }>();
+  entries.forEach(entry => {
+    const bank = entryCardKey(entry);
+    const key = `${bank}|${rowKeyOf(entry)}`;
+    const existing = offers.get(key);
+    if (!existing || entry.percentage > existing.percentage) {
+      offers.set(key, { bank, category: entry.category.trim(), percentage: entry.percentage });
+    }
+  });
+  return offers;
+};
+
+export const diffMonths = (previous: CashbackEntry[], current: CashbackEntry[]): OfferChange[] => {
+  const before = indexOffers(previous);
+  const after = indexOffers(current);
+  const changes: OfferChange[] = [];
+
+  after.forEach((offer, key) => {
+    const old = before.get(key);
+    if (!old) {
+      changes.push({ kind: 'added', bank: offer.bank, category: offer.category, current: offer.percentage });
+    } else if (offer.percentage !== old.percentage) {
+      changes.push({
+        kind: offer.percentage > old.percentage ? 'raised' : 'lowered',
+        bank: offer.bank,
+        category: offer.category,
+        previous: old.percentage,
+        current: offer.percentage
+      });
+    }
+  });
+
+  before.forEach((offer, key) => {
+    if (!after.has(key)) {
+      changes.push({ kind: 'removed', bank: offer.bank, category: offer.category, previous: offer.percentage });
+    }
+  });
+
+  return changes.sort((a, b) => a.bank.localeCompare(b.bank) || a.category.localeCompare(b.category));
+};
@@ -0,0 +1,73 @@
+import { createWorker, Worker } from "tesseract.js";
+import workerUrl from "tesseract.js/dist/worker.min.js?url";
+import coreUrl from "tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url";
+import rusDataUrl from "@tesseract.js-data/rus/4.0.0_best_int/rus.traineddata.gz?url";
+import engDataUrl from "@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url";
+import { SourceRegion } from "../types";
+import { regionFromPixels } from "./sourceImages";
+
+export interface OcrLine {
+  text: string;
+  region?: SourceRegion;
+}
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0..100 as reported by Tesseract
+  lines: OcrLine[];
+}
+
+// Language packs (LSTM only, gzipped) are bundled from node_modules like the worker and core
+const LANGUAGE_URLS: Record<string, string> = { rus: rusDataUrl, eng: engDataUrl };
+
+// A missing pack may come back as the app's own page instead of a 404, so HTML counts as missing too.
+// The worker unpacks the data itself whether or not the server already did.
+const loadLanguage = async (code: string) => {
+  const response = await fetch(LANGUAGE_URLS[code]).catch(() => undefined);
+  const isPack = response?.ok && !response.headers.get('content-type')?.includes('text/html');
+  const data = isPack ? new Uint8Array(await response.arrayBuffer()) : undefined;
+  if (!data?.length) {
+    throw new Error(`Не найден языковой пакет OCR (${code}) — офлайн-распознавание недоступно, пересоберите приложение`);
+  }
+  return { code, data };
+};
+
+let workerPromise: Promise<Worker> | null = null;
+
+const getWorker = () => {
+  if (!workerPromise) {
+    workerPromise = Promise.all(Object.keys(LANGUAGE_URLS).map(loadLanguage)).then(langs => createWorker(langs, 1, {
+      workerPath: workerUrl,
+      corePath: coreUrl,
+    })).catch(error => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+};
+
+// Starts the worker ahead of the first upload; rejects with a readable message when a language pack is missing
+export const prepareOcr = async () => {
+  await getWorker();
+};
+
+const getImageSize = async (image: Blob) => {
+  const bitmap = await createImageBitmap(image);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+};
+
+export const recognizeImage = async (image: File | Blob): Promise<OcrResult> => {
+  const worker = await getWorker();
+  const [{ data }, { width, height }] = await Promise.all([
+    worker.recognize(image, {}, { text: true, blocks: true }),
+    getImageSize(image),
+  ]);
+  const lines = (data.blocks ?? []).flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines)).map(line => ({
+    text: line.text.trim(),
+    region: regionFromPixels(line.bbox, width, height),
+  }));
+  return { text: data.text, confidence: data.confidence, lines };
+};
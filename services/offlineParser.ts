@@ -0,0 +1,111 @@
+import { CashbackEntry } from "../types";
+import { applyCanonicalCategory } from "./categoryCatalog";
+import { OcrLine, recognizeImage } from "./ocrService";
+import { unionRegions } from "./sourceImages";
+import { getBankKeywords } from "./bankRegistry";
+import { findEndDate } from "./validity";
+
+export interface OfflineParseResult {
+  entries: CashbackEntry[];
+  bankName: string;
+  confidence: number; // 0..1, combines OCR quality and how well the rules matched
+  text: string;
+}
+
+// "7% Фастфуд", "7 % на фастфуд"
+const PERCENT_FIRST = /^(\d{1,2}(?:[.,]\d{1,2})?)\s*%\s*(?:на\s+)?(.+)$/i;
+// "Такси — 10 %", "Такси 10%"
+const PERCENT_LAST = /^(.+?)\s*[—–\-:]?\s*(\d{1,2}(?:[.,]\d{1,2})?)\s*%$/;
+// "7%" alone, category on the next line
+const PERCENT_ONLY = /^(\d{1,2}(?:[.,]\d{1,2})?)\s*%$/;
+// Partner offers and promotions are marked on the tile itself
+const PROMO_MARKERS = /акци|спецпредлож|партн[её]р/i;
+
+const cleanCategory = (raw: string) =>
+  raw
+    .replace(/[|©®*•·>›]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^[a-zа-яё]/, c => c.toUpperCase());
+
+const isPlausibleCategory = (text: string) => /[a-zа-яё]{3,}/i.test(text) && text.length <= 60;
+
+export const detectBank = (text: string): string => {
+  const lower = text.toLowerCase();
+  let best = 'Other';
+  let bestScore = 0;
+  // Names, aliases and branding words from the bank registry
+  Object.entries(getBankKeywords()).forEach(([bank, keywords]) => {
+    const score = keywords.reduce((sum, k) => sum + lower.split(k).length - 1, 0);
+    if (score > bestScore) {
+      best = bank;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Extracts offers from OCR lines with a few line patterns.
+ * Confidence grows with OCR quality, a recognized bank and the share of lines that matched.
+ */
+// `year` is the selection month's year, for end dates shown without one
+export const extractEntriesFromLines = (ocrLines: OcrLine[], year: number, ocrConfidence = 100): OfflineParseResult => {
+  const text = ocrLines.map(l => l.text).join('\n');
+  const bankName = detectBank(text);
+  const nonEmpty = ocrLines.filter(l => l.text.trim());
+  const lines = nonEmpty.map(l => l.text.trim());
+  const entries: CashbackEntry[] = [];
+  let percentLines = 0;
+
+  // `from`/`count` are the lines the offer was read from
+  const push = (percentText: string, categoryText: string, from: number, count = 1) => {
+    const percentage = parseFloat(percentText.replace(',', '.'));
+    const category = cleanCategory(categoryText);
+    if (isNaN(percentage) || percentage <= 0 || percentage > 100 || !isPlausibleCategory(category)) return;
+    const originalText = lines.slice(from, from + count).join(' ');
+    entries.push(applyCanonicalCategory({
+      id: `ocr-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      bankName,
+      category,
+      percentage,
+      originalText,
+      kind: PROMO_MARKERS.test(originalText) ? 'promo' : undefined,
+      validUntil: findEndDate(originalText, year),
+      sourceRegion: unionRegions(nonEmpty.slice(from, from + count).map(l => l.region))
+    }));
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    let match: RegExpMatchArray | null;
+
+    if ((match = line.match(PERCENT_ONLY)) && lines[i + 1]) {
+      percentLines++;
+      push(match[1], lines[i + 1], i, 2);
+      i++;
+    } else if ((match = line.match(PERCENT_FIRST))) {
+      percentLines++;
+      push(match[1], match[2], i);
+    } else if ((match = line.match(PERCENT_LAST))) {
+      percentLines++;
+      push(match[2], match[1], i);
+    }
+  }
+
+  const matchRatio = percentLines > 0 ? entries.length / percentLines : 0;
+  const confidence = entries.length === 0
+    ? 0
+    : (ocrConfidence / 100) * 0.5 + matchRatio * 0.3 + (bankName !== 'Other' ? 0.2 : 0);
+
+  const rounded = Math.round(confidence * 100) / 100;
+  return { entries: entries.map(e => ({ ...e, confidence: rounded })), bankName, confidence: rounded, text };
+};
+
+export const extractEntriesFromText = (text: string, year: number, ocrConfidence = 100): OfflineParseResult =>
+  extractEntriesFromLines(text.split('\n').map(line => ({ text: line })), year, ocrConfidence);
+
+export const parseScreenshotOffline = async (file: File, year: number): Promise<OfflineParseResult> => {
+  const { lines, confidence } = await recognizeImage(file);
+  return extractEntriesFromLines(lines, year, confidence);
+};
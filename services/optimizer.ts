@@ -0,0 +1,308 @@
+import { CashbackEntry } from "../types";
+import { countsAgainstLimit, isBaseRate } from "./entryKinds";
+
+// Monthly spend assumed for a category when nothing better is known (₽)
+export const DEFAULT_CATEGORY_SPEND = 5000;
+
+export interface OptimizerInput {
+  entries: CashbackEntry[];          // Already normalized & deduplicated (one entry per bank+category)
+  limits: Record<string, number>;    // Bank -> how many categories may be chosen
+  spending?: Record<string, number>; // Category -> expected monthly spend in ₽
+  monthlyCaps?: Record<string, number>;  // Bank -> max cashback ₽ per month over all categories
+  categoryCaps?: Record<string, number>; // Bank -> default max cashback ₽ per category (entry.cap wins)
+}
+
+export interface SpendAllocation {
+  bank: string;
+  spend: number;    // ₽ of the category's spend routed to this card
+  cashback: number; // ₽ of cashback it earns there
+}
+
+export interface OptimizationResult {
+  // Bank -> categories to pick in that bank's app
+  assignments: Record<string, string[]>;
+  // Bank -> permanent and promo categories that work without being picked
+  alwaysOn: Record<string, string[]>;
+  // Category -> bank whose card should be used for it
+  winners: Record<string, string>;
+  // Category -> Bank -> expected ₽ per month if that card were used (caps applied)
+  expected: Record<string, Record<string, number>>;
+  // Category -> cards the spend goes through, in order; overflow past a cap moves to the next card
+  allocation: Record<string, SpendAllocation[]>;
+  // Expected ₽ per month for the whole selection
+  total: number;
+}
+
+interface Edge {
+  to: number;
+  cap: number;
+  cost: number;
+  rev: number;
+}
+
+const expectedCashback = (percentage: number, spend: number) => Math.round(spend * percentage) / 100;
+
+/**
+ * Chooses categories across all banks together.
+ * Every category is paid by a single card, so the problem is a capacitated assignment
+ * (bank -> category, each bank up to its limit) solved as a min-cost flow,
+ * re-solved with lower slot values while a bank's monthly cap can't pay for all of its picks.
+ * Slots left over after the assignment are filled with the best remaining offers as backups,
+ * and capped spend then overflows to the next selected card for the same category.
+ * Entries the user forced are always taken (using up a slot); excluded ones are never taken.
+ * Only selectable offers compete for slots: promos and permanent offers are always on,
+ * and a bank's permanent "на всё" rate is what any category earns there without a better offer.
+ */
+export const optimizeSelection = ({
+  entries,
+  limits,
+  spending = {},
+  monthlyCaps = {},
+  categoryCaps = {}
+}: OptimizerInput): OptimizationResult => {
+  const banks = Object.keys(limits).filter(b => limits[b] > 0);
+  const categories = Array.from(new Set(entries.filter(e => banks.includes(e.bankName)).map(e => e.category)));
+  const spendOf = (cat: string) => spending[cat] ?? DEFAULT_CATEGORY_SPEND;
+  const capOf = (e: CashbackEntry) => Math.min(e.cap ?? Infinity, categoryCaps[e.bankName] ?? Infinity, monthlyCaps[e.bankName] ?? Infinity);
+
+  // 1. Expected rubles for every bank/category pair
+  const expected: Record<string, Record<string, number>> = {};
+  const offers = new Map<string, CashbackEntry>();
+  entries.forEach(e => {
+    if (!banks.includes(e.bankName)) return;
+    if (!expected[e.category]) expected[e.category] = {};
+    expected[e.category][e.bankName] = Math.min(expectedCashback(e.percentage, spendOf(e.category)), capOf(e));
+    offers.set(`${e.bankName}|${e.category}`, e);
+  });
+
+  const forced = entries.filter(e => banks.includes(e.bankName) && e.selection === 'forced' && countsAgainstLimit(e));
+  const forcedCategories = new Set(forced.map(e => e.category));
+  const isExcluded = (bank: string, cat: string) => offers.get(`${bank}|${cat}`)?.selection === 'excluded';
+
+  // Offers that need no slot, and each bank's base rate
+  const alwaysOn: Record<string, string[]> = {};
+  const baseRates: Record<string, CashbackEntry> = {};
+  banks.forEach(bank => {
+    alwaysOn[bank] = [];
+  });
+  entries.forEach(e => {
+    if (!banks.includes(e.bankName) || e.selection === 'excluded' || countsAgainstLimit(e)) return;
+    alwaysOn[e.bankName].push(e.category);
+    const base = baseRates[e.bankName];
+    if (isBaseRate(e) && (!base || e.percentage > base.percentage)) baseRates[e.bankName] = e;
+  });
+
+  // What a category earns at a bank without using a slot there
+  const freeValue = (cat: string, bank: string) => {
+    const own = alwaysOn[bank].includes(cat) ? expected[cat][bank] : 0;
+    const base = baseRates[bank];
+    const fallback = base ? Math.min(expectedCashback(base.percentage, spendOf(cat)), capOf(base)) : 0;
+    return Math.max(own, fallback);
+  };
+  const freeBest: Record<string, number> = {};
+  categories.forEach(cat => {
+    freeBest[cat] = Math.max(0, ...banks.map(bank => freeValue(cat, bank)));
+  });
+
+  // Slot gains lowered because the bank's monthly cap is already used up by its other picks
+  const cappedGain = new Map<string, number>();
+  const slotGain = (bank: string, cat: string) =>
+    Math.min(expected[cat][bank], cappedGain.get(`${bank}|${cat}`) ?? Infinity) - freeBest[cat];
+
+  // 2-3. Min-cost flow over source -> bank -> category -> sink; returns bank -> picked categories
+  const solveSlots = (): Record<string, string[]> => {
+    const source = 0;
+    const bankNode = (i: number) => 1 + i;
+    const catNode = (j: number) => 1 + banks.length + j;
+    const sink = 1 + banks.length + categories.length;
+    const graph: Edge[][] = Array.from({ length: sink + 1 }, () => []);
+
+    const addEdge = (from: number, to: number, cap: number, cost: number) => {
+      graph[from].push({ to, cap, cost, rev: graph[to].length });
+      graph[to].push({ to: from, cap: 0, cost: -cost, rev: graph[from].length - 1 });
+    };
+
+    // Forced picks use up slots and already cover their categories.
+    // A slot is only worth what the offer adds over the best free option for the category.
+    banks.forEach((bank, i) => {
+      const freeSlots = limits[bank] - forced.filter(e => e.bankName === bank).length;
+      addEdge(source, bankNode(i), Math.max(0, freeSlots), 0);
+    });
+    categories.forEach((cat, j) => {
+      addEdge(catNode(j), sink, 1, 0);
+      if (forcedCategories.has(cat)) return;
+      banks.forEach((bank, i) => {
+        const offer = offers.get(`${bank}|${cat}`);
+        if (!offer || !countsAgainstLimit(offer) || isExcluded(bank, cat)) return;
+        const gain = slotGain(bank, cat);
+        if (gain > 0) addEdge(bankNode(i), catNode(j), 1, -gain);
+      });
+    });
+
+    // Successive shortest paths (Bellman-Ford, costs are negative) while a path still adds value
+    while (true) {
+      const dist = new Array<number>(graph.length).fill(Infinity);
+      const prev = new Array<[number, number] | null>(graph.length).fill(null);
+      dist[source] = 0;
+      for (let round = 0; round < graph.length; round++) {
+        let changed = false;
+        for (let u = 0; u < graph.length; u++) {
+          if (dist[u] === Infinity) continue;
+          graph[u].forEach((edge, idx) => {
+            if (edge.cap > 0 && dist[u] + edge.cost < dist[edge.to] - 1e-9) {
+              dist[edge.to] = dist[u] + edge.cost;
+              prev[edge.to] = [u, idx];
+              changed = true;
+            }
+          });
+        }
+        if (!changed) break;
+      }
+
+      if (dist[sink] >= 0) break;
+
+      // Every edge on the path has capacity >= 1 and category edges have exactly 1
+      let v = sink;
+      while (v !== source) {
+        const [u, idx] = prev[v]!;
+        const edge = graph[u][idx];
+        edge.cap -= 1;
+        graph[v][edge.rev].cap += 1;
+        v = u;
+      }
+    }
+
+    // Read the picks back from saturated bank -> category edges
+    const picked: Record<string, string[]> = {};
+    banks.forEach((bank, i) => {
+      picked[bank] = [];
+      graph[bankNode(i)].forEach(edge => {
+        const j = edge.to - 1 - banks.length;
+        if (j < 0 || j >= categories.length || edge.cap !== 0 || edge.cost >= 0) return;
+        picked[bank].push(categories[j]);
+      });
+    });
+    return picked;
+  };
+
+  // The flow prices each slot on its own, but a monthly cap is shared by all of a bank's picks.
+  // Re-rank a capped bank's picks against what is left of its cap and solve again until nothing shrinks.
+  let picked = solveSlots();
+  for (let round = 0; round <= categories.length; round++) {
+    let shrunk = false;
+    banks.forEach(bank => {
+      const monthlyCap = monthlyCaps[bank];
+      if (monthlyCap === undefined) return;
+      // Picks that lose the most when moved to another card get the cap first
+      const regret = (cat: string) =>
+        expected[cat][bank] - Math.max(freeBest[cat], ...banks.filter(b => b !== bank).map(b => expected[cat][b] ?? 0));
+      const held = [...forced.filter(e => e.bankName === bank).map(e => e.category), ...picked[bank]]
+        .sort((a, b) => regret(b) - regret(a));
+      let capLeft = monthlyCap;
+      held.forEach(cat => {
+        const worth = Math.min(expected[cat][bank], capLeft);
+        capLeft -= worth;
+        const key = `${bank}|${cat}`;
+        if (worth < (cappedGain.get(key) ?? expected[cat][bank]) - 1e-9) {
+          cappedGain.set(key, worth);
+          shrunk = true;
+        }
+      });
+    });
+    if (!shrunk) break;
+    picked = solveSlots();
+  }
+
+  // 4. Assemble the assignment: forced picks plus the flow's picks
+  const assignments: Record<string, string[]> = {};
+  const winners: Record<string, string> = {};
+
+  banks.forEach(bank => {
+    assignments[bank] = [];
+  });
+  forced.forEach(e => {
+    assignments[e.bankName].push(e.category);
+    const current = winners[e.category];
+    if (!current || expected[e.category][e.bankName] > expected[e.category][current]) winners[e.category] = e.bankName;
+  });
+
+  banks.forEach(bank => {
+    picked[bank].forEach(cat => {
+      assignments[bank].push(cat);
+      winners[cat] = bank;
+    });
+  });
+
+  // 5. Fill the remaining slots with the best unused offers of each bank
+  banks.forEach(bank => {
+    const free = limits[bank] - assignments[bank].length;
+    if (free <= 0) return;
+    entries
+      .filter(e => e.bankName === bank && e.selection !== 'excluded' && countsAgainstLimit(e) && !assignments[bank].includes(e.category))
+      .sort((a, b) => (expected[b.category]?.[bank] ?? 0) - (expected[a.category]?.[bank] ?? 0))
+      .slice(0, free)
+      .forEach(e => assignments[bank].push(e.category));
+  });
+
+  // 6. Route each category's spend: first through the card it was assigned to, then overflow
+  // through its other active cards (highest % first), most valuable categories first.
+  // Backups only get what the assigned picks leave of a bank's monthly cap.
+  const bankCapLeft: Record<string, number> = {};
+  banks.forEach(bank => {
+    bankCapLeft[bank] = monthlyCaps[bank] ?? Infinity;
+  });
+  // A base rate's own cap is shared by every category that falls back to it
+  const offerCapLeft = new Map<CashbackEntry, number>();
+
+  // The best offer a bank pays for a category right now: a picked or always-on offer, else its base rate
+  const activeOffer = (bank: string, cat: string): CashbackEntry | undefined => {
+    const offer = offers.get(`${bank}|${cat}`);
+    const own = offer && (assignments[bank].includes(cat) || alwaysOn[bank].includes(cat)) ? offer : undefined;
+    const base = baseRates[bank];
+    if (!own) return base;
+    return base && base.percentage > own.percentage ? base : own;
+  };
+
+  const allocation: Record<string, SpendAllocation[]> = {};
+  const spendLeft: Record<string, number> = {};
+  let total = 0;
+
+  // Puts as much of the category's remaining spend on one card as its caps allow
+  const route = (cat: string, bank: string) => {
+    const offer = activeOffer(bank, cat);
+    if (spendLeft[cat] <= 0 || !offer || offer.percentage <= 0) return;
+    if (!offerCapLeft.has(offer)) offerCapLeft.set(offer, offer.cap ?? Infinity);
+    const maxCashback = Math.min(offerCapLeft.get(offer)!, categoryCaps[bank] ?? Infinity, bankCapLeft[bank]);
+    if (maxCashback <= 0) return;
+
+    const fullCashback = expectedCashback(offer.percentage, spendLeft[cat]);
+    const cashback = Math.min(fullCashback, maxCashback);
+    const spend = cashback < fullCashback ? Math.round((cashback * 100) / offer.percentage) : spendLeft[cat];
+
+    allocation[cat].push({ bank, spend, cashback });
+    offerCapLeft.set(offer, offerCapLeft.get(offer)! - cashback);
+    bankCapLeft[bank] -= cashback;
+    spendLeft[cat] -= spend;
+    total += cashback;
+  };
+
+  const primaryValue = (cat: string) => Math.max(winners[cat] ? expected[cat][winners[cat]] : 0, freeBest[cat]);
+  const byValue = [...categories].sort((a, b) => primaryValue(b) - primaryValue(a));
+  byValue.forEach(cat => {
+    allocation[cat] = [];
+    spendLeft[cat] = spendOf(cat);
+    if (winners[cat]) route(cat, winners[cat]);
+  });
+  byValue.forEach(cat => {
+    banks
+      .filter(bank => bank !== winners[cat] && (activeOffer(bank, cat)?.percentage ?? 0) > 0)
+      .sort((a, b) => activeOffer(b, cat)!.percentage - activeOffer(a, cat)!.percentage)
+      .forEach(bank => route(cat, bank));
+
+    // The card that takes the first ruble is the one to pay with
+    if (allocation[cat].length > 0) winners[cat] = allocation[cat][0].bank;
+    else delete winners[cat];
+  });
+
+  return { assignments, alwaysOn, winners, expected, allocation, total: Math.round(total * 100) / 100 };
+};
@@ -0,0 +1,66 @@
+import { AiSettings, CashbackEntry } from "../types";
+
+const PARSE_CACHE_KEY = 'cashback.parseCache';
+// Oldest results are dropped past this many screenshots to stay well inside the localStorage quota
+const MAX_CACHED_IMAGES = 100;
+
+interface CachedParse {
+  entries: CashbackEntry[];
+  savedAt: number;
+}
+
+type ParseCache = Record<string, CachedParse>;
+
+const loadCache = (): ParseCache => {
+  try {
+    const raw = localStorage.getItem(PARSE_CACHE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error("Failed to load parse cache:", error);
+    return {};
+  }
+};
+
+const saveCache = (cache: ParseCache) => {
+  try {
+    localStorage.setItem(PARSE_CACHE_KEY, JSON.stringify(cache));
+  } catch (error) {
+    console.error("Failed to save parse cache:", error);
+  }
+};
+
+// A result only stands for the recognizer that produced it: weak OCR output must not replay in AI mode,
+// and switching provider or model parses again. End dates shown without a year are read in the
+// selection month's year, so a result is also tied to it.
+export const parseCacheKey = (hash: string, year: number, { parseMode = 'ai', provider, model }: AiSettings) =>
+  parseMode === 'offline' ? `offline|${year}|${hash}` : `${parseMode}|${provider}|${model}|${year}|${hash}`;
+
+// Cached entries get fresh ids so the same screenshot can be added to another month
+export const getCachedParse = (key: string): CashbackEntry[] | undefined => {
+  const cached = loadCache()[key];
+  return cached?.entries.map(entry => ({
+    ...entry,
+    id: `cache-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  }));
+};
+
+// Stored without links to a particular upload; the source is attached again on every reuse
+export const setCachedParse = (key: string, entries: CashbackEntry[]) => {
+  const cache = loadCache();
+  cache[key] = {
+    entries: entries.map(({ sourceId, owner, ...entry }) => entry),
+    savedAt: Date.now(),
+  };
+  const kept = Object.entries(cache)
+    .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+    .slice(0, MAX_CACHED_IMAGES);
+  saveCache(Object.fromEntries(kept));
+};
+
+export const clearParseCache = () => {
+  try {
+    localStorage.removeItem(PARSE_CACHE_KEY);
+  } catch (error) {
+    console.error("Failed to clear parse cache:", error);
+  }
+};
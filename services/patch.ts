@@ -0,0 +1,40 @@
+import { CashbackEntry, PatchOperation } from "../types";
+import { applyCanonicalCategory } from "./categoryCatalog";
+
+/**
+ * Applies accepted operations to the dataset.
+ * Untouched entries are returned as-is; updated ones keep their ID and provenance.
+ */
+export const applyPatch = (data: CashbackEntry[], operations: PatchOperation[]): CashbackEntry[] => {
+  const deleted = new Set<string>();
+  const updates = new Map<string, PatchOperation & { op: 'update' }>();
+
+  operations.forEach(operation => {
+    if (operation.op === 'delete') deleted.add(operation.targetId);
+    if (operation.op === 'update') updates.set(operation.targetId, operation);
+  });
+
+  const result = data
+    .filter(entry => !deleted.has(entry.id))
+    .map(entry => {
+      const update = updates.get(entry.id);
+      if (!update) return entry;
+      const { changes } = update;
+      const updated: CashbackEntry = { ...entry, ...changes };
+      // A renamed category is the user's new wording, so map it again
+      return changes.category !== undefined && changes.category !== entry.category
+        ? applyCanonicalCategory({ ...updated, rawCategory: undefined })
+        : updated;
+    });
+
+  operations.forEach(operation => {
+    if (operation.op !== 'add') return;
+    result.push(applyCanonicalCategory({
+      id: `refined-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      ...operation.entry,
+      originalText: "Added via refinement"
+    }));
+  });
+
+  return result;
+};
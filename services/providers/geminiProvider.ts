@@ -0,0 +1,60 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import type { AiProvider, JsonSchema } from "../aiProvider";
+import { parseJsonResponse } from "./parseJson";
+
+const TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: TYPES[schema.type],
+  description: schema.description,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+});
+
+// Clients are created on first use so a missing key only fails the call that needs it
+const clients = new Map<string, GoogleGenAI>();
+
+const getClient = (apiKey: string) => {
+  let client = clients.get(apiKey);
+  if (!client) {
+    client = new GoogleGenAI({ apiKey });
+    clients.set(apiKey, client);
+  }
+  return client;
+};
+
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.0-flash-exp',
+
+  generateJson: async (request, settings) => {
+    const apiKey = settings.apiKey || process.env.API_KEY;
+    if (!apiKey) throw new Error("Gemini API key is not configured");
+
+    const parts: any[] = [];
+    if (request.image) parts.push({ inlineData: request.image });
+    parts.push({ text: request.prompt });
+
+    const response = await getClient(apiKey).models.generateContent({
+      model: settings.model,
+      contents: { parts },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(request.schema),
+        abortSignal: request.signal
+      }
+    });
+
+    const text = response.text;
+    return text ? parseJsonResponse(text) : null;
+  },
+};
@@ -0,0 +1,45 @@
+import type { AiProvider } from "../aiProvider";
+
+// Fixed offers returned for every screenshot, useful for UI work without a model
+const SAMPLE_SCREENSHOT = [
+  { bankName: 'Sber', category: 'Такси', percentage: 10 },
+  { bankName: 'Sber', category: 'Кафе и рестораны', percentage: 5 },
+  { bankName: 'Sber', category: 'Аптеки', percentage: 3 },
+  { bankName: 'T-Bank', category: 'Рестораны', percentage: 7 },
+  { bankName: 'T-Bank', category: 'Супермаркеты', percentage: 5 },
+  { bankName: 'Alfa', category: 'Кафе', percentage: 5 },
+  { bankName: 'Alfa', category: 'АЗС', percentage: 4 },
+  { bankName: 'Alfa', category: 'Все покупки', percentage: 1, kind: 'permanent' },
+  { bankName: 'T-Bank', category: 'Кино', percentage: 15, kind: 'promo' },
+].map((offer, idx) => ({
+  ...offer,
+  // Stacked rows so the provenance view has something to highlight
+  originalText: `${offer.percentage}% ${offer.category}`,
+  box: [100 + idx * 110, 50, 190 + idx * 110, 950],
+}));
+
+// Deterministic provider: same request, same answer, no network
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  label: 'Тестовый (без ИИ)',
+  defaultModel: 'mock',
+
+  generateJson: async (request) => {
+    switch (request.task) {
+      case 'screenshot':
+        return SAMPLE_SCREENSHOT;
+      case 'refine':
+      case 'context':
+        // No operations / no extra offers
+        return [];
+      case 'merchant':
+        return {};
+      case 'purchase': {
+        // Picks the first category named in the question
+        const { question, categories } = request.input as { question: string; categories: { key: string; name: string }[] };
+        const match = categories.find(c => question.toLowerCase().includes(c.name.toLowerCase()));
+        return match ? { categoryKey: match.key } : {};
+      }
+    }
+  },
+};
@@ -0,0 +1,60 @@
+import type { AiProvider } from "../aiProvider";
+import { parseJsonResponse } from "./parseJson";
+
+// Ollama's default; llama.cpp's server usually listens on :8080/v1
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+// Works with OpenAI itself and local servers exposing /v1/chat/completions (Ollama, llama.cpp, LM Studio)
+export const openAiCompatibleProvider: AiProvider = {
+  id: 'openai',
+  label: 'OpenAI-совместимый (Ollama, llama.cpp)',
+  defaultModel: 'llama3.2-vision',
+
+  generateJson: async (request, settings) => {
+    const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+
+    const content: any[] = [
+      {
+        type: 'text',
+        text: `${request.prompt}\n\nRespond with JSON only, matching this JSON Schema:\n${JSON.stringify(request.schema)}`
+      }
+    ];
+    if (request.image) {
+      content.push({
+        type: 'image_url',
+        image_url: { url: `data:${request.image.mimeType};base64,${request.image.data}` }
+      });
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) headers['Authorization'] = `Bearer ${settings.apiKey}`;
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [{ role: 'user', content }],
+        temperature: 0,
+        response_format: { type: 'json_object' }
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`AI server responded with ${response.status}: ${await response.text()}`);
+    }
+
+    const payload = await response.json();
+    const text: string | undefined = payload.choices?.[0]?.message?.content;
+    if (!text) return null;
+
+    // json_object mode can't return a bare array, so unwrap { "items": [...] }-style answers
+    const parsed = parseJsonResponse(text);
+    if (request.schema.type === 'array' && parsed && !Array.isArray(parsed) && typeof parsed === 'object') {
+      const firstArray = Object.values(parsed).find(Array.isArray);
+      return firstArray ?? [];
+    }
+    return parsed;
+  },
+};
@@ -0,0 +1,5 @@
+// Models often wrap JSON in markdown fences when they can't be forced into JSON mode
+export const parseJsonResponse = (text: string): unknown => {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  return JSON.parse(cleaned);
+};
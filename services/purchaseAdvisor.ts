@@ -0,0 +1,122 @@
+import { BankConfig } from "../types";
+import { CashbackMatrix, formatRub, MatrixCell, MatrixRow } from "./matrix";
+import { BASE_RATE_CATEGORY_ID } from "./entryKinds";
+import { formatReward, getBankRubValue } from "./rewards";
+
+export interface PurchaseOption {
+  bank: string;
+  cell: MatrixCell;
+  isBaseRate: boolean; // No offer in the category: the card's "Все покупки" rate applies
+  capLeft?: number;    // ₽ of cashback the card can still pay after the month's plan, when a cap is known
+  cashback: number;    // ₽ this purchase earns
+}
+
+// Purchases that fit no category of the month earn each card's base rate
+export const OTHER_PURCHASE_KEY = '__other';
+export const OTHER_PURCHASE_LABEL = 'Прочие покупки';
+
+export interface PurchaseAdvice {
+  row?: MatrixRow; // Missing for "other purchases"
+  amount: number;
+  best?: PurchaseOption;
+  options: PurchaseOption[];  // Best first
+  unavailable: MatrixCell[];  // Offers in the category that can't be used this month
+  reasoning: string[];        // How the answer was computed, one line per card
+}
+
+// "60k", "60 тыс", "60 000 ₽", "1,5 млн" -> rubles; the largest number wins over product names like "iPhone 15"
+export const parsePurchaseAmount = (text: string): number | undefined => {
+  const amounts = Array.from(text.matchAll(/(\d[\d\s]*(?:[.,]\d+)?)\s*(k|к|тыс\.?|т\.р\.?|млн)?(?![\wа-яё])/gi)).map(match => {
+    const value = parseFloat(match[1].replace(/\s/g, '').replace(',', '.'));
+    const unit = (match[2] ?? '').toLowerCase();
+    return value * (unit.startsWith('млн') ? 1_000_000 : unit ? 1000 : 1);
+  });
+  const largest = Math.max(0, ...amounts.filter(a => !isNaN(a)));
+  return largest > 0 ? largest : undefined;
+};
+
+const isUsable = (cell: MatrixCell) =>
+  cell.percentage !== undefined
+  && cell.isSelected
+  && !cell.isFallback
+  && cell.selection !== 'excluded'
+  && (cell.validity === undefined || cell.validity === 'active');
+
+// The offer a card pays for a category: its own when picked and valid, otherwise its base rate
+export const cardOffer = (
+  { matrix }: CashbackMatrix,
+  rowKey: string | undefined,
+  bank: string
+): { cell: MatrixCell; isBaseRate: boolean } | undefined => {
+  const own = matrix.find(r => r.key === rowKey)?.values.find(v => v.bank === bank);
+  if (own && isUsable(own)) return { cell: own, isBaseRate: false };
+  const base = matrix.find(r => r.categoryId === BASE_RATE_CATEGORY_ID)?.values.find(v => v.bank === bank);
+  return base && isUsable(base) ? { cell: base, isBaseRate: true } : undefined;
+};
+
+const unavailableReason = (cell: MatrixCell) => {
+  if (cell.validity === 'expired') return 'акция уже закончилась';
+  if (cell.validity === 'upcoming') return 'ещё не началась';
+  if (cell.selection === 'excluded') return 'исключена вручную';
+  return 'категория не выбрана в этом месяце';
+};
+
+const plannedCashback = (row: MatrixRow | undefined, bank: string) =>
+  row?.allocation.filter(a => a.bank === bank).reduce((sum, a) => sum + a.cashback, 0) ?? 0;
+
+/**
+ * Computes which card to pay with for one purchase, from the matrix only.
+ * Every card is checked with its own offer in the category or, failing that, its base rate;
+ * caps are reduced by the cashback the month's planned spending already takes.
+ */
+export const advisePurchase = (
+  cashbackMatrix: CashbackMatrix,
+  rowKey: string,
+  amount: number,
+  bankConfigs: Record<string, BankConfig>
+): PurchaseAdvice | undefined => {
+  const { matrix } = cashbackMatrix;
+  const row = matrix.find(r => r.key === rowKey);
+  if (!row && rowKey !== OTHER_PURCHASE_KEY) return undefined;
+  const baseRow = matrix.find(r => r.categoryId === BASE_RATE_CATEGORY_ID);
+
+  const bankCapLeft = (bank: string) => {
+    const config = bankConfigs[bank];
+    if (config?.monthlyCap === undefined) return undefined;
+    const planned = matrix.reduce((sum, r) => sum + plannedCashback(r, bank), 0);
+    return config.monthlyCap * getBankRubValue(config) - planned;
+  };
+
+  const reasoning = [`Категория «${row?.name ?? OTHER_PURCHASE_LABEL}», сумма покупки ${formatRub(amount)}`];
+  const options: PurchaseOption[] = [];
+  const unavailable: MatrixCell[] = [];
+
+  cashbackMatrix.targetBanks.forEach(bank => {
+    const own = row?.values.find(v => v.bank === bank);
+    if (own && !isUsable(own) && own.percentage !== undefined && !own.isFallback) unavailable.push(own);
+    const offer = cardOffer(cashbackMatrix, row?.key, bank);
+    if (!offer) return;
+    const { cell, isBaseRate } = offer;
+
+    const categoryLeft = cell.cap !== undefined ? cell.cap - plannedCashback(isBaseRate ? baseRow : row, bank) : undefined;
+    const caps = [categoryLeft, bankCapLeft(bank)].filter((c): c is number => c !== undefined);
+    const capLeft = caps.length > 0 ? Math.max(0, Math.min(...caps)) : undefined;
+    const full = (amount * (cell.effectivePercentage ?? 0)) / 100;
+    const cashback = Math.min(full, capLeft ?? Infinity);
+    options.push({ bank, cell, isBaseRate, capLeft, cashback });
+
+    const rate = formatReward(cell.percentage!, cell.currency, cell.effectivePercentage);
+    const capNote = capLeft !== undefined && capLeft < full
+      ? ` (по лимиту осталось ${formatRub(capLeft)} с учётом плана месяца)`
+      : '';
+    reasoning.push(`${bank}: ${rate}${isBaseRate ? ' на все покупки' : ''} → ${formatRub(cashback)}${capNote}`);
+  });
+
+  unavailable.forEach(cell => {
+    reasoning.push(`${cell.bank}: ${formatReward(cell.percentage!, cell.currency, cell.effectivePercentage)} не подходит — ${unavailableReason(cell)}`);
+  });
+
+  options.sort((a, b) => b.cashback - a.cashback);
+  const best = options[0]?.cashback > 0 ? options[0] : undefined;
+  return { row, amount, best, options, unavailable, reasoning };
+};
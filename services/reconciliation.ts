@@ -0,0 +1,176 @@
+import { ReconciliationRecord, Transaction } from "../types";
+import { CashbackMatrix } from "./matrix";
+import { cardOffer } from "./purchaseAdvisor";
+import { findCategoryByMcc, getCategoryById } from "./categoryCatalog";
+
+const STORAGE_KEY = 'cashback.reconciliation';
+
+// A purchase is flagged when it earned less than half the selected rate: per-purchase rounding stays quiet
+const DISCREPANCY_RATE_SHARE = 0.5;
+const DISCREPANCY_MIN_RUB = 1;
+
+export interface ReconciliationLine {
+  card: string;
+  categoryId?: string;
+  category: string;
+  count: number;
+  spend: number;
+  rate?: number;    // Selected ₽ % for the category, or the card's base rate
+  isBaseRate: boolean;
+  expected: number;
+  actual?: number;  // Known when the statement lists cashback per purchase
+}
+
+export interface Discrepancy {
+  transaction: Transaction;
+  expectedRate: number;
+  actualRate: number;
+  expected: number;
+  actual: number;
+  reason: string;
+}
+
+export interface Reconciliation {
+  lines: ReconciliationLine[];
+  discrepancies: Discrepancy[];
+}
+
+const roundRub = (value: number) => Math.round(value * 100) / 100;
+
+const discrepancyReason = (tx: Transaction, isBaseRate: boolean) => {
+  const mccCategory = tx.mcc ? findCategoryByMcc(tx.mcc) : undefined;
+  if (tx.mcc && mccCategory?.id !== tx.categoryId) {
+    return `MCC ${tx.mcc} банк относит к ${mccCategory ? `«${mccCategory.name}»` : 'другой категории'}`;
+  }
+  if (isBaseRate) return 'банк начислил меньше базовой ставки';
+  return 'банк не засчитал покупку в выбранную категорию — проверьте MCC';
+};
+
+/**
+ * Compares a month's purchases with what the selected offers promise.
+ * Each purchase (tx.bank is the card) earns its card's selected offer for its category or the base rate;
+ * category caps are applied to the line total, not purchase by purchase.
+ */
+export const reconcileTransactions = (cashbackMatrix: CashbackMatrix, transactions: Transaction[]): Reconciliation => {
+  const lines = new Map<string, ReconciliationLine>();
+  const discrepancies: Discrepancy[] = [];
+
+  transactions.forEach(tx => {
+    if (!tx.bank) return;
+    const offer = cardOffer(cashbackMatrix, tx.categoryId, tx.bank);
+    const rate = offer?.cell.effectivePercentage;
+    const expected = (tx.amount * (rate ?? 0)) / 100;
+
+    const key = `${tx.bank}|${tx.categoryId ?? ''}`;
+    const line = lines.get(key) ?? {
+      card: tx.bank,
+      categoryId: tx.categoryId,
+      category: getCategoryById(tx.categoryId)?.name ?? 'Без категории',
+      count: 0,
+      spend: 0,
+      rate,
+      isBaseRate: offer?.isBaseRate ?? false,
+      expected: 0,
+    };
+    line.count++;
+    line.spend += tx.amount;
+    line.expected += expected;
+    if (tx.cashback !== undefined) line.actual = (line.actual ?? 0) + tx.cashback;
+    lines.set(key, line);
+
+    // Unmapped lines are often transfers that earn nothing, so only categorized purchases are flagged
+    if (tx.cashback === undefined || !rate || !tx.categoryId || tx.amount <= 0) return;
+    const actualRate = (tx.cashback / tx.amount) * 100;
+    if (actualRate < rate * DISCREPANCY_RATE_SHARE && expected - tx.cashback >= DISCREPANCY_MIN_RUB) {
+      discrepancies.push({
+        transaction: tx,
+        expectedRate: rate,
+        actualRate: Math.round(actualRate * 10) / 10,
+        expected: roundRub(expected),
+        actual: tx.cashback,
+        reason: discrepancyReason(tx, offer!.isBaseRate),
+      });
+    }
+  });
+
+  const result = Array.from(lines.values()).map(line => {
+    const cap = line.isBaseRate ? undefined : cashbackMatrix.matrix.find(r => r.key === line.categoryId)?.values.find(v => v.bank === line.card)?.cap;
+    return { ...line, expected: roundRub(Math.min(line.expected, cap ?? Infinity)) };
+  });
+  result.sort((a, b) => a.card.localeCompare(b.card) || b.expected - a.expected);
+  discrepancies.sort((a, b) => (b.expected - b.actual) - (a.expected - a.actual));
+  return { lines: result, discrepancies };
+};
+
+// What the matrix planned per card when no purchases were imported for it
+export const plannedCashback = ({ matrix }: CashbackMatrix): Record<string, number> => {
+  const planned: Record<string, number> = {};
+  matrix.forEach(row => row.allocation.forEach(a => {
+    planned[a.bank] = roundRub((planned[a.bank] ?? 0) + a.cashback);
+  }));
+  return planned;
+};
+
+/**
+ * Purchases are not stored, so a record rebuilt after a reload lacks the statement payouts.
+ * Those survive from the stored record until the statement is cleared; nothing else is carried over.
+ */
+export const mergeReconciliation = (
+  stored: ReconciliationRecord | undefined,
+  next: ReconciliationRecord
+): ReconciliationRecord => {
+  if (!stored?.statement?.length) return next;
+  const expected = { ...next.expected };
+  const actual = { ...next.actual };
+  const statement = [...(next.statement ?? [])];
+  stored.statement.forEach(card => {
+    if (Object.hasOwn(actual, card) || !Object.hasOwn(stored.actual, card)) return;
+    actual[card] = stored.actual[card];
+    expected[card] = stored.expected[card] ?? expected[card];
+    statement.push(card);
+  });
+  return { ...next, expected, actual, statement };
+};
+
+export const loadReconciliations = (): Record<string, ReconciliationRecord> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error("Failed to load reconciliation:", error);
+    return {};
+  }
+};
+
+export const saveReconciliation = (month: string, record: ReconciliationRecord) => {
+  try {
+    const records = loadReconciliations();
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...records, [month]: record }));
+  } catch (error) {
+    console.error("Failed to save reconciliation:", error);
+  }
+};
+
+export interface YearTotals {
+  months: number;   // Months with a known payout
+  expected: number; // Only for cards whose payout is known, so the two sums compare
+  actual: number;
+}
+
+// Running total from January up to and including the month
+export const yearTotals = (records: Record<string, ReconciliationRecord>, month: string): YearTotals => {
+  const year = month.slice(0, 4);
+  const totals: YearTotals = { months: 0, expected: 0, actual: 0 };
+  Object.entries(records)
+    .filter(([key]) => key.startsWith(year) && key <= month)
+    .forEach(([, record]) => {
+      const cards = Object.keys(record.actual);
+      if (cards.length === 0) return;
+      totals.months++;
+      cards.forEach(card => {
+        totals.expected += record.expected[card] ?? 0;
+        totals.actual += record.actual[card];
+      });
+    });
+  return { ...totals, expected: roundRub(totals.expected), actual: roundRub(totals.actual) };
+};
@@ -0,0 +1,50 @@
+import { BankConfig, CashbackEntry, RewardCurrency } from "../types";
+
+export interface RewardCurrencyInfo {
+  label: string;
+  short: string;
+  defaultValue: number; // ₽ per point
+}
+
+export const REWARD_CURRENCIES: Record<RewardCurrency, RewardCurrencyInfo> = {
+  rub: { label: 'Рубли', short: '₽', defaultValue: 1 },
+  spasibo: { label: 'СберСпасибо', short: 'Спасибо', defaultValue: 1 },
+  plus: { label: 'Баллы Плюса', short: 'Плюс', defaultValue: 1 },
+  points: { label: 'Бонусные баллы', short: 'баллы', defaultValue: 1 },
+};
+
+export const isRewardCurrency = (value: unknown): value is RewardCurrency =>
+  typeof value === 'string' && Object.hasOwn(REWARD_CURRENCIES, value);
+
+export const getEntryCurrency = (entry: CashbackEntry, config?: BankConfig): RewardCurrency =>
+  entry.currency ?? config?.currency ?? 'rub';
+
+/**
+ * ₽ value of one reward unit for an entry.
+ * The bank's configured rate applies when the entry pays in the bank's own currency.
+ */
+export const getRubValue = (entry: CashbackEntry, config?: BankConfig): number => {
+  const currency = getEntryCurrency(entry, config);
+  if (currency === 'rub') return 1;
+  if (currency === (config?.currency ?? 'rub') && config?.pointValue !== undefined) return config.pointValue;
+  return REWARD_CURRENCIES[currency].defaultValue;
+};
+
+// Rate of the bank's main currency, used to convert bank-wide caps
+export const getBankRubValue = (config?: BankConfig): number => {
+  const currency = config?.currency ?? 'rub';
+  if (currency === 'rub') return 1;
+  return config?.pointValue ?? REWARD_CURRENCIES[currency].defaultValue;
+};
+
+export const getEffectivePercentage = (entry: CashbackEntry, config?: BankConfig) =>
+  Math.round(entry.percentage * getRubValue(entry, config) * 100) / 100;
+
+// "10% Спасибо (≈8% ₽)" for points, plain "10%" for rubles
+export const formatReward = (percentage: number, currency: RewardCurrency = 'rub', effectivePercentage?: number) => {
+  if (currency === 'rub') return `${percentage}%`;
+  const base = `${percentage}% ${REWARD_CURRENCIES[currency].short}`;
+  return effectivePercentage !== undefined && effectivePercentage !== percentage
+    ? `${base} (≈${effectivePercentage}% ₽)`
+    : base;
+};
@@ -0,0 +1,46 @@
+import { CashbackEntry, ParseMode } from "../types";
+import { parseCashbackScreenshot } from "./geminiService";
+import { OfflineParseResult, parseScreenshotOffline } from "./offlineParser";
+import { throwIfAborted } from "./uploadQueue";
+
+// Offline results below this confidence are re-checked by the AI in 'offline-first' mode
+export const OFFLINE_CONFIDENCE_THRESHOLD = 0.6;
+
+export const PARSE_MODE_LABELS: Record<ParseMode, string> = {
+  'ai': 'ИИ',
+  'offline': 'Офлайн (OCR)',
+  'offline-first': 'Сначала офлайн, ИИ при низкой уверенности',
+};
+
+// OCR can't be interrupted, so cancellation is checked once it finishes
+// `year` is the selection month's year: end dates without one are read in it
+export const parseScreenshot = async (file: File, mode: ParseMode, year: number, signal?: AbortSignal): Promise<CashbackEntry[]> => {
+  if (mode === 'ai') return parseCashbackScreenshot(file, year, signal);
+
+  if (mode === 'offline') {
+    const offline = await parseScreenshotOffline(file, year);
+    throwIfAborted(signal);
+    return offline.entries;
+  }
+
+  // A missing language pack or any OCR failure falls through to the AI instead of failing the upload
+  let offline: OfflineParseResult = { entries: [], bankName: '', confidence: 0, text: '' };
+  try {
+    offline = await parseScreenshotOffline(file, year);
+  } catch (error) {
+    console.error("Offline parsing failed, using AI:", error);
+  }
+  throwIfAborted(signal);
+
+  if (offline.entries.length > 0 && offline.confidence >= OFFLINE_CONFIDENCE_THRESHOLD) {
+    return offline.entries;
+  }
+
+  try {
+    return await parseCashbackScreenshot(file, year, signal);
+  } catch (error) {
+    // No key or API down: a weak offline result is still better than nothing
+    if (offline.entries.length > 0 && !signal?.aborted) return offline.entries;
+    throw error;
+  }
+};
@@ -0,0 +1,55 @@
+import { CashbackEntry, SourceImage, SourceRegion } from "../types";
+
+export const createSourceImage = (file: File): SourceImage => ({
+  id: `src-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  name: file.name,
+  blob: file,
+  addedAt: Date.now(),
+});
+
+export const attachSource = (entries: CashbackEntry[], source: SourceImage): CashbackEntry[] =>
+  entries.map(entry => ({ ...entry, sourceId: source.id }));
+
+// Keeps only screenshots some entry list (undo steps, review queue) still points to
+export const pruneSources = (sources: SourceImage[], entryLists: CashbackEntry[][]): SourceImage[] => {
+  const used = new Set<string>();
+  entryLists.forEach(entries => entries.forEach(entry => {
+    if (entry.sourceId) used.add(entry.sourceId);
+  }));
+  return sources.filter(source => used.has(source.id));
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Smallest region covering all given ones
+export const unionRegions = (regions: (SourceRegion | undefined)[]): SourceRegion | undefined => {
+  const present = regions.filter((r): r is SourceRegion => r !== undefined);
+  if (present.length === 0) return undefined;
+  const x0 = Math.min(...present.map(r => r.x));
+  const y0 = Math.min(...present.map(r => r.y));
+  const x1 = Math.max(...present.map(r => r.x + r.width));
+  const y1 = Math.max(...present.map(r => r.y + r.height));
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+};
+
+// Pixel box (x0, y0, x1, y1) to fractions of the image size
+export const regionFromPixels = (
+  box: { x0: number; y0: number; x1: number; y1: number },
+  width: number,
+  height: number
+): SourceRegion | undefined => {
+  if (!width || !height || box.x1 <= box.x0 || box.y1 <= box.y0) return undefined;
+  return {
+    x: clamp(box.x0 / width),
+    y: clamp(box.y0 / height),
+    width: clamp((box.x1 - box.x0) / width),
+    height: clamp((box.y1 - box.y0) / height),
+  };
+};
+
+// [ymin, xmin, ymax, xmax] on a 0..1000 scale, the convention vision models use for boxes
+export const regionFromModelBox = (box: unknown): SourceRegion | undefined => {
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(v => typeof v === 'number' && isFinite(v))) return undefined;
+  const [ymin, xmin, ymax, xmax] = box as number[];
+  return regionFromPixels({ x0: xmin, y0: ymin, x1: xmax, y1: ymax }, 1000, 1000);
+};
@@ -0,0 +1,41 @@
+import { SpendingProfile } from "../types";
+import { DEFAULT_CATEGORY_SPEND } from "./optimizer";
+
+const STORAGE_KEY = 'cashback.spendingProfile';
+
+const normalizeKey = (category: string) => category.trim().toLowerCase();
+
+export const loadSpendingProfile = (): SpendingProfile => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error("Failed to load spending profile:", error);
+    return {};
+  }
+};
+
+export const saveSpendingProfile = (profile: SpendingProfile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    console.error("Failed to save spending profile:", error);
+  }
+};
+
+// Returns the monthly spend for a category, falling back to the optimizer default
+export const getSpend = (profile: SpendingProfile, category: string): number => {
+  const key = normalizeKey(category);
+  const match = Object.keys(profile).find(k => normalizeKey(k) === key);
+  return match !== undefined ? profile[match] : DEFAULT_CATEGORY_SPEND;
+};
+
+export const setSpend = (profile: SpendingProfile, category: string, amount: number | undefined): SpendingProfile => {
+  const key = normalizeKey(category);
+  const next: SpendingProfile = {};
+  Object.entries(profile).forEach(([k, v]) => {
+    if (normalizeKey(k) !== key) next[k] = v;
+  });
+  if (amount !== undefined) next[category.trim()] = amount;
+  return next;
+};
@@ -0,0 +1,175 @@
+import { Transaction } from "../types";
+import { parseCsv } from "./csv";
+import { getBankRegistry, normalizeBankName } from "./bankRegistry";
+import { normalizeCategoryLabel } from "./categoryCatalog";
+
+export const STATEMENT_ACCEPT = '.csv,.xlsx,.ofx,.qfx';
+
+// Column titles used by Sber, T-Bank and Alfa exports, most specific first
+const COLUMNS = {
+  date: ['дата операции', 'дата транзакции', 'дата', 'date'],
+  // T-Bank's "Сумма платежа" is in rubles, "Сумма операции" in the purchase currency
+  amount: ['сумма платежа', 'сумма в валюте счета', 'сумма операции', 'сумма', 'amount'],
+  debit: ['расход', 'списание', 'дебет'],
+  credit: ['приход', 'поступление', 'зачисление', 'кредит'],
+  description: ['описание', 'описание операции', 'назначение платежа', 'контрагент', 'description', 'payee'],
+  mcc: ['mcc', 'мсс', 'код mcc'],
+  category: ['категория', 'category'],
+  status: ['статус', 'status'],
+  cashback: ['бонусы (включая кэшбэк)', 'кэшбэк', 'cashback'],
+};
+type Column = keyof typeof COLUMNS;
+
+const FAILED_STATUSES = ['failed', 'отклонена', 'отменена', 'отказ'];
+// A statement may start with account details; the header is searched for in the first rows
+const HEADER_SEARCH_ROWS = 30;
+
+const newId = () => `tx-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// "-1 234,56" and "1234.56" -> number
+const parseAmount = (value: string) => parseFloat(value.replace(/[\s ₽]/g, '').replace(',', '.'));
+
+// "31.12.2023 19:33:12", "31.12.2023", "2023-12-31", "20231231120000" -> ISO date
+const parseDate = (value: string): string | undefined => {
+  const text = value.trim();
+  let match = text.match(/^(\d{2})\.(\d{2})\.(\d{4})/);
+  if (match) return `${match[3]}-${match[2]}-${match[1]}`;
+  match = text.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  return undefined;
+};
+
+const findColumns = (header: string[]) => {
+  const titles = header.map(title => normalizeCategoryLabel(title));
+  const index = {} as Partial<Record<Column, number>>;
+  (Object.keys(COLUMNS) as Column[]).forEach(column => {
+    for (const name of COLUMNS[column]) {
+      const idx = titles.indexOf(normalizeCategoryLabel(name));
+      if (idx >= 0) {
+        index[column] = idx;
+        break;
+      }
+    }
+  });
+  return index;
+};
+
+// Bank-specific columns give the bank away; otherwise its name in the file name
+const detectBank = (header: string[], fileName: string): string | undefined => {
+  const titles = header.map(title => normalizeCategoryLabel(title));
+  if (titles.includes(normalizeCategoryLabel('Бонусы (включая кэшбэк)'))) return 'T-Bank';
+  if (titles.includes(normalizeCategoryLabel('Референс проводки'))) return 'Alfa';
+  const fromName = normalizeBankName(fileName.replace(/\.[^.]+$/, '').replace(/[_.\-]+/g, ' '));
+  return getBankRegistry().some(b => b.name === fromName) ? fromName : undefined;
+};
+
+// Turns spreadsheet rows into purchases; income, transfers in and failed operations are dropped
+const parseRows = (rows: string[][], fileName: string): Transaction[] => {
+  const headerIdx = rows.slice(0, HEADER_SEARCH_ROWS).findIndex(row => {
+    const columns = findColumns(row);
+    return columns.date !== undefined && (columns.amount !== undefined || columns.debit !== undefined);
+  });
+  if (headerIdx < 0) throw new Error("Не найдены колонки с датой и суммой операции");
+  const header = rows[headerIdx];
+  const columns = findColumns(header);
+  const bank = detectBank(header, fileName);
+  const field = (row: string[], column: Column) => {
+    const idx = columns[column];
+    return idx === undefined ? '' : (row[idx] ?? '').trim();
+  };
+
+  const transactions: Transaction[] = [];
+  rows.slice(headerIdx + 1).forEach(row => {
+    const date = parseDate(field(row, 'date'));
+    if (!date) return;
+    if (FAILED_STATUSES.includes(field(row, 'status').toLowerCase())) return;
+    // Spending is negative in a signed column, or sits in a separate debit column
+    const amount = columns.debit !== undefined
+      ? (parseAmount(field(row, 'debit')) || 0) - (parseAmount(field(row, 'credit')) || 0)
+      : -parseAmount(field(row, 'amount'));
+    if (!(amount > 0)) return;
+    const mcc = field(row, 'mcc');
+    const cashback = parseAmount(field(row, 'cashback'));
+    transactions.push({
+      id: newId(),
+      date,
+      amount,
+      description: field(row, 'description'),
+      mcc: /^\d{4}$/.test(mcc) ? mcc : undefined,
+      bankCategory: field(row, 'category') || undefined,
+      bank,
+      cashback: isNaN(cashback) ? undefined : cashback,
+    });
+  });
+  return transactions;
+};
+
+// OFX 1.x is SGML without closing tags, 2.x is XML; both keep one tag per line or value
+const parseOfx = (text: string, fileName: string): Transaction[] => {
+  const tag = (block: string, name: string) => block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'))?.[1].trim() ?? '';
+  const org = tag(text, 'ORG');
+  const fromOrg = org ? normalizeBankName(org) : '';
+  const bank = getBankRegistry().some(b => b.name === fromOrg) ? fromOrg : detectBank([], fileName);
+
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  return blocks.flatMap(block => {
+    const date = parseDate(tag(block, 'DTPOSTED'));
+    const amount = -parseAmount(tag(block, 'TRNAMT'));
+    if (!date || !(amount > 0)) return [];
+    const mcc = tag(block, 'SIC');
+    return [{
+      id: newId(),
+      date,
+      amount,
+      description: tag(block, 'NAME') || tag(block, 'MEMO'),
+      mcc: /^\d{4}$/.test(mcc) ? mcc : undefined,
+      bank,
+    }];
+  });
+};
+
+// ExcelJS keeps the sheet's wall-clock dates in UTC; formulas and rich text carry their text inside
+const cellText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') {
+    const cell = value as { result?: unknown; text?: string; richText?: { text: string }[] };
+    if (cell.richText) return cell.richText.map(part => part.text).join('');
+    if (cell.text !== undefined) return cell.text;
+    if (cell.result !== undefined) return cellText(cell.result);
+    return '';
+  }
+  return String(value);
+};
+
+const readXlsxRows = async (file: File): Promise<string[][]> => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+  const rows: string[][] = [];
+  sheet.eachRow(row => {
+    const values = Array.isArray(row.values) ? row.values.slice(1) : [];
+    rows.push(values.map(cellText));
+  });
+  return rows;
+};
+
+// T-Bank still exports in Windows-1251
+const readText = async (file: File) => {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1251').decode(buffer);
+  }
+};
+
+export const parseStatementFile = async (file: File): Promise<Transaction[]> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xlsx')) return parseRows(await readXlsxRows(file), file.name);
+  const text = await readText(file);
+  if (name.endsWith('.ofx') || name.endsWith('.qfx') || /<OFX>/i.test(text)) return parseOfx(text, file.name);
+  return parseRows(parseCsv(text), file.name);
+};
@@ -0,0 +1,70 @@
+import { MerchantDefinition, SpendingProfile, Transaction } from "../types";
+import { findCategoryByMcc, getCategoryById, normalizeCategoryLabel, resolveCategoryId } from "./categoryCatalog";
+import { findMerchant, loadCustomMerchants, MERCHANT_CATALOG } from "./merchantCatalog";
+
+// Spend averages are rounded like the profile editor's step
+const SPEND_ROUNDING = 100;
+
+export interface UnmappedPayee {
+  description: string;
+  mcc?: string;
+  count: number;
+  total: number; // ₽
+}
+
+/**
+ * Which category a purchase counts toward:
+ * 1. merchants the user assigned by hand, 2. MCC, 3. bundled merchants, 4. the bank's own label.
+ */
+export const categorizeTransaction = (tx: Transaction, custom: MerchantDefinition[] = loadCustomMerchants()): string | undefined => {
+  const fixed = tx.description ? findMerchant(tx.description, custom) : undefined;
+  if (fixed) return getCategoryById(fixed.categoryId)?.id;
+  const byMcc = tx.mcc ? findCategoryByMcc(tx.mcc) : undefined;
+  if (byMcc) return byMcc.id;
+  const merchant = tx.description ? findMerchant(tx.description, MERCHANT_CATALOG) : undefined;
+  if (merchant) return getCategoryById(merchant.categoryId)?.id ?? (merchant.mcc ? findCategoryByMcc(merchant.mcc)?.id : undefined);
+  return tx.bankCategory ? resolveCategoryId(tx.bankCategory) ?? undefined : undefined;
+};
+
+export const categorizeTransactions = (transactions: Transaction[], custom: MerchantDefinition[] = loadCustomMerchants()): Transaction[] =>
+  transactions.map(tx => ({ ...tx, categoryId: categorizeTransaction(tx, custom) }));
+
+export const transactionMonth = (tx: Pick<Transaction, 'date'>) => tx.date.slice(0, 7);
+
+// "2026-01".."2026-10" present in the statement, oldest first
+export const statementMonths = (transactions: Transaction[]) =>
+  Array.from(new Set(transactions.map(transactionMonth))).sort();
+
+const monthsBetween = (from: string, to: string) => {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth) + 1;
+};
+
+// Average ₽ per month for each category over the period, keyed like the spending profile
+export const averageMonthlySpend = (transactions: Transaction[], from: string, to: string): SpendingProfile => {
+  const months = Math.max(1, monthsBetween(from, to));
+  const totals: Record<string, number> = {};
+  transactions.forEach(tx => {
+    const month = transactionMonth(tx);
+    const category = getCategoryById(tx.categoryId);
+    if (!category || month < from || month > to) return;
+    totals[category.name] = (totals[category.name] ?? 0) + tx.amount;
+  });
+  return Object.fromEntries(
+    Object.entries(totals).map(([name, total]) => [name, Math.round(total / months / SPEND_ROUNDING) * SPEND_ROUNDING])
+  );
+};
+
+// Purchases no rule could place, grouped by merchant, biggest first
+export const findUnmappedPayees = (transactions: Transaction[]): UnmappedPayee[] => {
+  const groups = new Map<string, UnmappedPayee>();
+  transactions.filter(tx => !tx.categoryId).forEach(tx => {
+    const key = normalizeCategoryLabel(tx.description) || tx.mcc || '';
+    const group = groups.get(key) ?? { description: tx.description, mcc: tx.mcc, count: 0, total: 0 };
+    group.count++;
+    group.total += tx.amount;
+    groups.set(key, group);
+  });
+  return Array.from(groups.values()).sort((a, b) => b.total - a.total);
+};
@@ -0,0 +1,98 @@
+import { AiSettings, CashbackEntry, SourceImage } from "../types";
+import { decodeInput } from "./inputDecoders";
+import { findDuplicate, findLookalikes, ImageFingerprint, preprocessImage } from "./imagePreprocess";
+import { mergeTileResults, splitTallImage } from "./imageTiles";
+import { getCachedParse, parseCacheKey, setCachedParse } from "./parseCache";
+import { extractEntriesFromLines } from "./offlineParser";
+import { OFFLINE_CONFIDENCE_THRESHOLD, parseScreenshot } from "./screenshotParser";
+import { attachSource, createSourceImage } from "./sourceImages";
+import { throwIfAborted, withBackoff } from "./uploadQueue";
+import type { OcrLine } from "./ocrService";
+
+export type KnownImage = Partial<ImageFingerprint> & { name: string };
+
+export interface UploadOptions {
+  aiSettings: AiSettings; // Parse mode, and the provider the cached results belong to
+  year: number;           // Year of the selection month; end dates shown without one belong to it
+  owner?: string;
+  signal?: AbortSignal;
+  force?: boolean;                   // Parse images that look like repeats too
+  knownImages: () => KnownImage[];   // Screenshots already uploaded, read when each image is checked
+  onImage?: (image: KnownImage) => void; // An image was accepted; lets parallel uploads see it
+  onRetry?: (attempt: number, waitMs: number) => void;
+}
+
+export interface UploadResult {
+  sources: SourceImage[];
+  entries: CashbackEntry[];
+  duplicates: string[]; // Uploaded screenshots that pages of this file repeated exactly
+  lookalikes: string[]; // Uploaded screenshots that pages of this file resemble
+  cached: boolean;      // Nothing had to be parsed
+}
+
+// A usable PDF text layer is free to read; everything else goes through the screenshot parser, tile by tile
+const parseImage = async (file: File, textLines: OcrLine[] | undefined, options: UploadOptions): Promise<CashbackEntry[]> => {
+  if (textLines) {
+    const fromText = extractEntriesFromLines(textLines, options.year);
+    if (fromText.entries.length > 0 && fromText.confidence >= OFFLINE_CONFIDENCE_THRESHOLD) return fromText.entries;
+  }
+
+  const tiles = await splitTallImage(file);
+  // Tiles go one at a time: they already share the rate limit with the other uploads
+  const results: { tile: typeof tiles[number]; entries: CashbackEntry[] }[] = [];
+  for (const tile of tiles) {
+    const entries = await withBackoff(() => parseScreenshot(tile.file, options.aiSettings.parseMode, options.year, options.signal), options.signal, options.onRetry);
+    results.push({ tile, entries });
+  }
+  return tiles.length > 1 ? mergeTileResults(results) : results[0].entries;
+};
+
+/**
+ * Turns one uploaded file into entries and the screenshots they point to.
+ * 1. Decode (PDF pages, HEIC) 2. Shrink, crop and fingerprint 3. Skip exact repeats, warn about lookalikes
+ * 4. Reuse the cached result or parse 5. Link entries to their screenshot.
+ */
+export const processUpload = async (file: File, options: UploadOptions): Promise<UploadResult> => {
+  const pages = await decodeInput(file);
+  throwIfAborted(options.signal);
+  const result: UploadResult = { sources: [], entries: [], duplicates: [], lookalikes: [], cached: true };
+  // Pages of one PDF share a layout, so they are never lookalikes of each other
+  const ownPages = new Set<string>();
+
+  for (const page of pages) {
+    const image = await preprocessImage(page.file);
+    throwIfAborted(options.signal);
+    const known = options.knownImages();
+    const duplicate = options.force ? undefined : findDuplicate(image, known);
+    if (duplicate) {
+      result.duplicates.push(duplicate.name);
+      continue;
+    }
+    findLookalikes(image, known.filter(k => !k.hash || !ownPages.has(k.hash))).forEach(match => {
+      if (!result.lookalikes.includes(match.name)) result.lookalikes.push(match.name);
+    });
+    const name = pages.length > 1 ? page.file.name : file.name;
+    ownPages.add(image.hash);
+    options.onImage?.({ name, hash: image.hash, perceptualHash: image.perceptualHash });
+
+    const cacheKey = parseCacheKey(image.hash, options.year, options.aiSettings);
+    const cached = getCachedParse(cacheKey);
+    const parsed = cached ?? await parseImage(image.file, page.textLines, options);
+    if (!cached) {
+      result.cached = false;
+      if (parsed.length > 0) setCachedParse(cacheKey, parsed);
+    }
+
+    const source: SourceImage = {
+      ...createSourceImage(image.file),
+      name,
+      owner: options.owner,
+      hash: image.hash,
+      perceptualHash: image.perceptualHash,
+    };
+    result.sources.push(source);
+    result.entries.push(...attachSource(parsed, source).map(e => ({ ...e, owner: options.owner })));
+  }
+
+  return result;
+};
@@ -0,0 +1,61 @@
+import { UploadJob } from "../types";
+
+// Screenshots parsed at the same time; more mostly trips the providers' rate limits
+export const UPLOAD_CONCURRENCY = 3;
+
+const MAX_RETRIES = 4;
+const BASE_DELAY_MS = 2000;
+
+export const createUploadJob = (file: File, owner?: string): UploadJob => ({
+  id: `job-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  file,
+  owner,
+  status: 'queued',
+  attempt: 0,
+});
+
+export const isActiveJob = (job: UploadJob) => job.status === 'queued' || job.status === 'running';
+
+// Gemini reports 429 / RESOURCE_EXHAUSTED, OpenAI-style servers put the status in our error message
+export const isRateLimitError = (error: unknown) => {
+  if ((error as { status?: number })?.status === 429) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b429\b|RESOURCE_EXHAUSTED|rate.?limit|too many requests/i.test(message);
+};
+
+export const isAbortError = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Upload cancelled', 'AbortError');
+};
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    }, { once: true });
+  });
+
+/**
+ * Runs a call again after rate-limit errors, waiting 2 s, 4 s, 8 s, ... (with jitter) in between.
+ * Other errors and cancellation are passed through right away.
+ */
+export const withBackoff = async <T>(
+  run: () => Promise<T>,
+  signal?: AbortSignal,
+  onRetry?: (attempt: number, waitMs: number) => void
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await run();
+    } catch (error) {
+      if (signal?.aborted || attempt > MAX_RETRIES || !isRateLimitError(error)) throw error;
+      const waitMs = BASE_DELAY_MS * 2 ** (attempt - 1) * (0.8 + Math.random() * 0.4);
+      onRetry?.(attempt, waitMs);
+      await delay(waitMs, signal);
+    }
+  }
+};
@@ -0,0 +1,90 @@
+import { CashbackEntry } from "../types";
+
+export type ValidityStatus = 'active' | 'expired' | 'upcoming';
+
+// Promos ending within this many days are flagged in the matrix
+export const EXPIRY_WARNING_DAYS = 7;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const MONTHS_GENITIVE = ['января', 'февраля', 'марта', 'апреля', 'мая', 'июня', 'июля', 'августа', 'сентября', 'октября', 'ноября', 'декабря'];
+
+// Local calendar date, not UTC: "2026-10-31"
+export const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && ISO_DATE.test(value) && !isNaN(new Date(value).getTime());
+
+export const addDays = (isoDate: string, days: number) => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return toIsoDate(new Date(year, month - 1, day + days));
+};
+
+// "31 октября" style label for a date
+export const formatDate = (isoDate: string) => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('ru-RU', { day: 'numeric', month: 'long' });
+};
+
+// First and last day of a "2026-10" month
+export const monthRange = (month: string) => {
+  const [year, mon] = month.split('-').map(Number);
+  return { from: toIsoDate(new Date(year, mon - 1, 1)), until: toIsoDate(new Date(year, mon, 0)) };
+};
+
+// Entries without dates are valid for the whole month they were chosen for
+export const getValidity = (entry: Pick<CashbackEntry, 'validFrom' | 'validUntil'>, month: string) => {
+  const range = monthRange(month);
+  return { from: entry.validFrom ?? range.from, until: entry.validUntil ?? range.until };
+};
+
+// The day a month is judged on: today while it lasts, its last day once it is over, its first day before it starts
+export const evaluationDate = (month: string, today: Date = new Date()) => {
+  const { from, until } = monthRange(month);
+  const date = toIsoDate(today);
+  if (date < from) return from;
+  return date > until ? until : date;
+};
+
+export const getValidityStatus = (
+  entry: Pick<CashbackEntry, 'validFrom' | 'validUntil'>,
+  month: string,
+  asOf: string = evaluationDate(month)
+): ValidityStatus => {
+  const { from, until } = getValidity(entry, month);
+  if (until < asOf) return 'expired';
+  return from > asOf ? 'upcoming' : 'active';
+};
+
+// Explicitly dated offers that end within EXPIRY_WARNING_DAYS of asOf
+export const isExpiringSoon = (entry: Pick<CashbackEntry, 'validUntil'>, asOf: string) =>
+  entry.validUntil !== undefined && entry.validUntil >= asOf && entry.validUntil <= addDays(asOf, EXPIRY_WARNING_DAYS);
+
+/**
+ * Finds an end date in offer text: "до 31.10", "до 31.10.2026", "по 15 ноября".
+ * A date without a year belongs to the year of the selection month.
+ */
+export const findEndDate = (text: string, year: number): string | undefined => {
+  // "до"/"по" as whole words (\b doesn't know Cyrillic), and no "%" or more digits after the date: "по 1.5% на всё" is a rate
+  const numeric = text.match(/(?<![\p{L}\d])(?:до|по)\s+(\d{1,2})\.(\d{1,2})(?:\.(\d{2,4}))?(?!\d|[.,]\d|\s*%)/iu);
+  const named = text.match(new RegExp(`(?<![\\p{L}\\d])(?:до|по)\\s+(\\d{1,2})\\s+(${MONTHS_GENITIVE.join('|')})(?:\\s+(\\d{4}))?`, 'iu'));
+
+  let day: number, month: number, fullYear = year;
+  if (numeric) {
+    day = Number(numeric[1]);
+    month = Number(numeric[2]);
+    if (numeric[3]) fullYear = numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3]);
+  } else if (named) {
+    day = Number(named[1]);
+    month = MONTHS_GENITIVE.indexOf(named[2].toLowerCase()) + 1;
+    if (named[3]) fullYear = Number(named[3]);
+  } else {
+    return undefined;
+  }
+
+  const date = new Date(fullYear, month - 1, day);
+  // Rejects "31.02" and similar, which Date would roll over
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return undefined;
+  return toIsoDate(date);
+};
@@ -1,15 +1,90 @@
+// What the cashback is paid in
+export type RewardCurrency = 'rub' | 'spasibo' | 'plus' | 'points';
+
+// How an offer is obtained: picked monthly (counts against Top-N), always on, or a time-limited partner promo
+export type EntryKind = 'selectable' | 'permanent' | 'promo';
+
+// Part of a screenshot, as fractions (0..1) of its width and height
+export interface SourceRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Uploaded screenshot kept with the month so entries can point back to it
+export interface SourceImage {
+  id: string;
+  name: string;
+  blob: Blob;
+  addedAt: number;
+  owner?: string;
+  hash?: string;           // SHA-256 of the uploaded file
+  perceptualHash?: string; // Catches the same screen captured twice
+}
+
 export interface CashbackEntry {
   id: string;
   bankName: string;
   category: string;
   percentage: number;
-  originalText?: string;
+  originalText?: string; // Raw line as read from the screenshot
+  sourceId?: string;     // SourceImage the entry was read from
+  sourceRegion?: SourceRegion;
+  categoryId?: string;   // Canonical category from the catalog (undefined if unmapped)
+  rawCategory?: string;  // Category label exactly as the bank shows it
+  cap?: number;          // Max cashback per month for this category (in reward units)
+  currency?: RewardCurrency; // Only when it differs from the bank's currency
+  kind?: EntryKind;      // Unset means selectable, or permanent for the "Все покупки" base rate
+  selection?: 'forced' | 'excluded'; // Manual override of the optimizer's choice
+  validFrom?: string;    // "2026-10-01"; unset means from the start of the selection month
+  validUntil?: string;   // "2026-10-31"; unset means until the end of the selection month
+  confidence?: number;   // 0..1, how much to trust a parsed entry (model and validation rules)
+  owner?: string;        // Household member holding the card (unset when the app is used by one person)
+}
+
+// Parsed entry held back until the user confirms or fixes it
+export interface ReviewItem {
+  entry: CashbackEntry;
+  issues: string[];
+}
+
+// Bank known to the app: how to recognize it and what a new month starts with
+export interface BankDefinition {
+  name: string;        // Canonical name used everywhere ("Sber")
+  aliases: string[];   // Spellings that map to it, Cyrillic and Latin ("Сбер", "Сбербанк")
+  keywords?: string[]; // Brand words seen on its offer screens, used by offline OCR
+  hints?: string;      // What its app looks like, for the vision prompt
+  color: string;
+  limit: number;       // Default Top-N
+  currency?: RewardCurrency;
 }
 
-export interface ProcessingStatus {
-  total: number;
-  processed: number;
-  isProcessing: boolean;
+export interface BankConfig {
+  enabled: boolean;
+  limit: number;
+  color: string;
+  monthlyCap?: number;   // Max cashback per month for the whole bank (in the bank's reward units)
+  categoryCap?: number;  // Default max cashback per month for each category (in the bank's reward units)
+  currency?: RewardCurrency; // Defaults to rubles
+  pointValue?: number;   // ₽ per point when currency is not rubles
+  removed?: boolean;     // Taken away by the user; kept (disabled) so entries of the card don't bring it back
+}
+
+export type UploadJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled' | 'skipped';
+
+// One screenshot in the upload queue
+export interface UploadJob {
+  id: string;
+  file: File;
+  owner?: string;  // Household member the screenshot belongs to
+  status: UploadJobStatus;
+  attempt: number; // Rate-limit retries so far
+  found?: number;  // Offers read from the file once done
+  cached?: boolean; // Result came from the parse cache
+  duplicates?: number; // Pages skipped as repeats of uploaded screenshots
+  lookalikes?: string[]; // Uploaded screenshots that look like this one; parsed anyway
+  force?: boolean;  // Parse even if it looks like a duplicate
   error?: string;
 }
 
@@ -18,4 +93,93 @@ export enum ParseStatus {
   PROCESSING = 'PROCESSING',
   SUCCESS = 'SUCCESS',
   ERROR = 'ERROR'
-}
\ No newline at end of file
+}
+
+// Expected monthly spend in ₽ per category name
+export type SpendingProfile = Record<string, number>;
+
+// One purchase from a bank statement
+export interface Transaction {
+  id: string;
+  date: string;           // ISO date
+  amount: number;         // ₽ spent
+  description: string;    // Merchant as the bank writes it
+  mcc?: string;
+  bankCategory?: string;  // The bank's own label for the purchase
+  bank?: string;          // Whose statement it came from, when recognized
+  categoryId?: string;    // Canonical category, once mapped
+  cashback?: number;      // What the bank paid for it, when the statement says
+}
+
+// Cashback per card for one month, ₽
+export interface ReconciliationRecord {
+  expected: Record<string, number>;
+  actual: Record<string, number>;  // Only cards whose payout is known
+  manual?: Record<string, number>; // Payouts typed in by hand, win over the statement
+  statement?: string[];            // Cards whose payout was summed from an imported statement
+}
+
+
+export interface CategoryDefinition {
+  id: string;
+  name: string;
+  synonyms: string[];
+  mcc: string[];
+}
+
+// Normalized raw label -> canonical category ID (null = keep the label as its own category)
+export type CategoryOverrides = Record<string, string | null>;
+
+export interface MerchantDefinition {
+  name: string;
+  aliases: string[];
+  mcc?: string;
+  categoryId: string;
+}
+
+export interface HistoryStep {
+  label: string; // "Upload 3 files", "Refine: 'удали ВТБ'"
+  data: CashbackEntry[];
+  timestamp: number;
+}
+
+// Snapshots of data after every mutation; steps[index] is the current state
+export interface DataHistory {
+  steps: HistoryStep[];
+  index: number;
+}
+
+// Everything persisted for one selection month
+export interface MonthSession {
+  month: string; // "YYYY-MM"
+  entries: CashbackEntry[];
+  history?: DataHistory;
+  sources?: SourceImage[];
+  reviewQueue?: ReviewItem[];
+  bankConfigs: Record<string, BankConfig>;
+  userComment?: string;
+  updatedAt?: number;
+}
+
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+// How screenshots are recognized: model only, in-browser OCR only, or OCR with AI fallback
+export type ParseMode = 'ai' | 'offline' | 'offline-first';
+
+export interface AiSettings {
+  provider: AiProviderId;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible servers only
+  apiKey?: string;  // Overrides the key from the environment
+  parseMode?: ParseMode;
+}
+
+// Fields the refine step is allowed to set on an entry
+export type EditableEntryFields = Pick<CashbackEntry, 'bankName' | 'category' | 'percentage'>;
+
+// One reviewable change proposed by the refine step
+export type PatchOperation =
+  | { op: 'add'; entry: EditableEntryFields; reason?: string }
+  | { op: 'update'; targetId: string; changes: Partial<EditableEntryFields>; reason?: string }
+  | { op: 'delete'; targetId: string; reason?: string };
\ No newline at end of file